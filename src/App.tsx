@@ -20,35 +20,72 @@ import {
 import BluetoothIcon from '@mui/icons-material/Bluetooth';
 import BluetoothConnectedIcon from '@mui/icons-material/BluetoothConnected';
 import BluetoothDisabledIcon from '@mui/icons-material/BluetoothDisabled';
+import BluetoothSearchingIcon from '@mui/icons-material/BluetoothSearching';
 import SettingsIcon from '@mui/icons-material/Settings';
 import TuneIcon from '@mui/icons-material/Tune';
 import BookmarkIcon from '@mui/icons-material/Bookmark';
+import ScienceIcon from '@mui/icons-material/Science';
+import ReceiptLongIcon from '@mui/icons-material/ReceiptLong';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import EditIcon from '@mui/icons-material/Edit';
 import { MotorControl } from './components/MotorControl';
 import { LEDControl } from './components/LEDControl';
 import { StatusMonitor } from './components/StatusMonitor';
+import { BilateralControl } from './components/BilateralControl';
+import { EmergencyStopButton } from './components/EmergencyStopButton';
 import { PresetManager } from './components/PresetManager';
 import { SettingsDialog } from './components/SettingsDialog';
 import { ConnectingOverlay } from './components/ConnectingOverlay';
-import { bleConfigService, ScanOptions, MotorMode } from './services/ble-config.service';
+import { TrafficLogDialog } from './components/TrafficLogDialog';
+import { GattExplorerDialog } from './components/GattExplorerDialog';
+import { KnownDevicesList } from './components/KnownDevicesList';
+import { DeviceNicknameDialog } from './components/DeviceNicknameDialog';
+import { DeviceMirrorCard } from './components/DeviceMirrorCard';
+import { bleConfigService, ScanOptions, MotorMode, ConnectionPhase } from './services/ble-config.service';
+import { CONNECTING_PHASES } from './services/connection-phase';
+import { BLEError, toBLEError } from './services/ble-errors';
+import { DemoTransport } from './services/transports/demo.transport';
+import { deviceRegistryService } from './services/device-registry.service';
+import { deviceMirrorService } from './services/device-mirror.service';
 import { presetStorageService } from './services/preset-storage.service';
 import { pwaSettingsService } from './services/pwa-settings.service';
 import { usePWASettings } from './contexts/PWASettingsContext';
 
+/**
+ * Service UUIDs typed in the scan dialog: 16-bit ("180f") or full 128-bit; anything else is dropped
+ */
+const parseServiceUuids = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[\s,]+/)
+    .flatMap(entry => {
+      const short = entry.replace(/^0x/, '');
+      if (/^[0-9a-f]{4}$/.test(short)) return [`0000${short}-0000-1000-8000-00805f9b34fb`];
+      if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(entry)) return [entry];
+      return [];
+    });
+
 function App() {
   const { settings } = usePWASettings();
   const [connected, setConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectionPhase, setConnectionPhase] = useState<ConnectionPhase>(bleConfigService.getConnectionPhase());
   const [deviceName, setDeviceName] = useState<string>('');
-  const [error, setError] = useState<string>('');
+  const [deviceNickname, setDeviceNickname] = useState<string | null>(null);
+  const [error, setError] = useState<string | BLEError>(''); // BLEErrors also list how to fix them
   const [snackbarOpen, setSnackbarOpen] = useState(false);
   const [bluetoothAvailable, setBluetoothAvailable] = useState(true);
   const [motorMode, setMotorMode] = useState<MotorMode>(MotorMode.MODE_05HZ_25);
   const [ledOnlyMode, setLedOnlyMode] = useState(false);
+  const [missingCharacteristics, setMissingCharacteristics] = useState<string[]>([]);
+
+  // Device connected in another tab of the app (shown read-only here)
+  const [remoteDevice, setRemoteDevice] = useState(deviceMirrorService.getRemoteState());
 
   // Scan options state
   const [scanDialogOpen, setScanDialogOpen] = useState(false);
   const [namePrefix, setNamePrefix] = useState<string>('');
   const [acceptAllDevices, setAcceptAllDevices] = useState(false);
+  const [extraServices, setExtraServices] = useState<string>('');
 
   // Preset manager state
   const [presetDialogOpen, setPresetDialogOpen] = useState(false);
@@ -56,15 +93,33 @@ function App() {
   // PWA settings state
   const [settingsDialogOpen, setSettingsDialogOpen] = useState(false);
 
+  // BLE traffic log state (advanced mode)
+  const [trafficLogOpen, setTrafficLogOpen] = useState(false);
+
+  // Raw GATT explorer state (advanced mode)
+  const [gattExplorerOpen, setGattExplorerOpen] = useState(false);
+
+  // Device nickname dialog state
+  const [nicknameDialogOpen, setNicknameDialogOpen] = useState(false);
+
   // Section collapsed states (expanded by default)
   const [motorExpanded, setMotorExpanded] = useState(true);
   const [ledExpanded, setLedExpanded] = useState(true);
   const [statusExpanded, setStatusExpanded] = useState(true);
+  const [bilateralExpanded, setBilateralExpanded] = useState(true);
 
   // Apply settings
   const compactMode = settings.ui.compactMode;
   const showAdvancedControls = settings.ui.showAdvancedControls;
 
+  // Device controls are only usable while the link is actually up
+  const isConnecting = CONNECTING_PHASES.has(connectionPhase);
+  const isReconnecting = connectionPhase === 'reconnecting';
+  const deviceReady = connectionPhase === 'ready';
+
+  // Nickname from the device registry, falling back to the advertised name
+  const deviceDisplayName = deviceNickname ?? deviceName;
+
   // Format build date for display
   const formatBuildDate = (isoDate: string) => {
     const date = new Date(isoDate);
@@ -97,44 +152,96 @@ function App() {
 
     // Subscribe to disconnect events from BLE service
     // This handles unexpected disconnects (e.g., device powered off, out of range)
-    const unsubscribeDisconnect = bleConfigService.onDisconnect(() => {
+    const unsubscribeDisconnect = bleConfigService.on('disconnect', () => {
       console.log('Device disconnected (notified via BLE service)');
       setConnected(false);
       setDeviceName('');
-      setIsConnecting(false);
+      setMissingCharacteristics([]);
+      setDeviceNickname(null);
+    });
+
+    // Pick up the nickname when the registry records the connection or the user renames the device
+    const unsubscribeRegistry = deviceRegistryService.onChange((record) => {
+      if (record.id === bleConfigService.getDeviceId()) {
+        setDeviceNickname(record.nickname);
+      }
+    });
+
+    // Follow the connection phase (connecting steps, ready, auto-reconnect...)
+    // While reconnecting the device is kept (not treated as disconnected) but controls are disabled
+    const unsubscribePhase = bleConfigService.on('connectionPhase', (phase) => {
+      setConnectionPhase(phase);
+      if (phase === 'ready') {
+        setConnected(true);
+        setDeviceName(bleConfigService.getDeviceName());
+        setMissingCharacteristics(bleConfigService.getUnsupportedCharacteristics());
+      }
+    });
+
+    // Share the live device state with the app's other tabs, and mirror theirs
+    const stopMirror = deviceMirrorService.start();
+    const unsubscribeMirror = deviceMirrorService.onRemoteStateChange(setRemoteDevice);
+
+    // Background failures that need the user's attention (e.g. auto-reconnect gave up)
+    const unsubscribeError = bleConfigService.on('error', (serviceError) => {
+      if (serviceError.severity === 'error') {
+        setError(serviceError.message);
+      }
     });
 
     return () => {
+      unsubscribeMirror();
+      stopMirror();
+      unsubscribeError();
       unsubscribeDisconnect();
+      unsubscribePhase();
+      unsubscribeRegistry();
     };
   }, []);
 
-  const handleConnect = async (scanOptions?: ScanOptions) => {
+  const runConnect = async (connectFn: () => Promise<void>) => {
     try {
       setError('');
-      setIsConnecting(true);
-      const options = scanOptions || {
-        namePrefix: namePrefix || undefined,
-        acceptAllDevices: acceptAllDevices,
-        disableAutoNotifications: false, // Use notify/subscribe for real-time updates
-      };
-      await bleConfigService.connect(options);
+      await connectFn();
       setConnected(true);
       setDeviceName(bleConfigService.getDeviceName());
+      setMissingCharacteristics(bleConfigService.getUnsupportedCharacteristics());
       setSnackbarOpen(true);
       setScanDialogOpen(false);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to connect to device';
-      // Don't show error if user cancelled the device picker
-      if (errorMessage !== 'User cancelled the requestDevice() chooser.') {
-        setError(errorMessage);
+      // Don't show error if the user cancelled (chooser closed or Cancel pressed)
+      const bleError = toBLEError(err, 'connect');
+      if (bleError.code !== 'cancelled') {
+        setError(bleError);
       }
-      setConnected(false);
-    } finally {
-      setIsConnecting(false);
     }
   };
 
+  const handleCancelConnect = () => {
+    // Tears down the half-open connection; the pending connect call then rejects quietly
+    bleConfigService.disconnect();
+  };
+
+  const handleConnect = async (scanOptions?: ScanOptions) => {
+    const options = scanOptions || {
+      namePrefix: namePrefix || undefined,
+      acceptAllDevices: acceptAllDevices,
+      disableAutoNotifications: false, // Use notify/subscribe for real-time updates
+      extraServices: parseServiceUuids(extraServices),
+    };
+    await runConnect(() => bleConfigService.connect(options));
+  };
+
+  const handleConnectKnown = async (deviceId: string) => {
+    // Device was granted before - connect directly without the chooser
+    await runConnect(() => bleConfigService.connectKnownDevice(deviceId, { disableAutoNotifications: false }));
+  };
+
+  const handleConnectDemo = async () => {
+    // Simulated device - works without Bluetooth hardware or Web Bluetooth support
+    await runConnect(() => bleConfigService.connectTransport(new DemoTransport()));
+  };
+
   const handleQuickConnect = () => {
     // Quick connect with default options (service UUID filter only)
     handleConnect({ disableAutoNotifications: false });
@@ -149,10 +256,11 @@ function App() {
       await bleConfigService.disconnect();
       setConnected(false);
       setDeviceName('');
+      setDeviceNickname(null);
+      setMissingCharacteristics([]);
       setError('');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to disconnect';
-      setError(errorMessage);
+      setError(toBLEError(err));
     }
   };
 
@@ -178,19 +286,45 @@ function App() {
                       gap: 0.5,
                     }}
                   >
-                    <BluetoothConnectedIcon sx={{ fontSize: '0.875rem' }} />
-                    {deviceName}
+                    {isReconnecting ? (
+                      <BluetoothSearchingIcon sx={{ fontSize: '0.875rem' }} />
+                    ) : (
+                      <BluetoothConnectedIcon sx={{ fontSize: '0.875rem' }} />
+                    )}
+                    {isReconnecting ? `Reconnecting to ${deviceDisplayName}...` : deviceDisplayName}
+                    {!isReconnecting && (
+                      <IconButton
+                        color="inherit"
+                        size="small"
+                        onClick={() => setNicknameDialogOpen(true)}
+                        title="Rename device"
+                        sx={{ p: 0.25 }}
+                      >
+                        <EditIcon sx={{ fontSize: '0.875rem' }} />
+                      </IconButton>
+                    )}
                   </Box>
                 </>
               )}
             </Typography>
           </Box>
-          <IconButton color="inherit" onClick={() => setPresetDialogOpen(true)} disabled={!bluetoothAvailable} title="Device Presets">
+          <EmergencyStopButton connected={deviceReady} />
+          <IconButton color="inherit" onClick={() => setPresetDialogOpen(true)} disabled={!bluetoothAvailable && !connected} title="Device Presets">
             <BookmarkIcon />
           </IconButton>
           <IconButton color="inherit" onClick={() => setSettingsDialogOpen(true)} title="PWA Settings">
             <TuneIcon />
           </IconButton>
+          {showAdvancedControls && (
+            <IconButton color="inherit" onClick={() => setTrafficLogOpen(true)} title="BLE Traffic Log">
+              <ReceiptLongIcon />
+            </IconButton>
+          )}
+          {connected && showAdvancedControls && (
+            <IconButton color="inherit" onClick={() => setGattExplorerOpen(true)} disabled={!deviceReady} title="GATT Explorer">
+              <AccountTreeIcon />
+            </IconButton>
+          )}
           {!connected && showAdvancedControls && (
             <IconButton color="inherit" onClick={handleAdvancedScan} disabled={!bluetoothAvailable || isConnecting} title="Advanced Scan Options">
               <SettingsIcon />
@@ -199,7 +333,7 @@ function App() {
           <Button
             color="inherit"
             onClick={connected ? handleDisconnect : handleQuickConnect}
-            disabled={!bluetoothAvailable || isConnecting}
+            disabled={(!bluetoothAvailable && !connected) || isConnecting || (!connected && remoteDevice !== null)}
             startIcon={connected ? <BluetoothDisabledIcon /> : <BluetoothIcon />}
           >
             {connected ? 'Disconnect' : 'Connect Device'}
@@ -237,6 +371,15 @@ function App() {
               label="Show All BLE Devices (Testing Mode)"
             />
 
+            <TextField
+              label="Extra Service UUIDs"
+              placeholder="e.g., 180f, 4bcae9be-9829-4f0a-9e88-267de5e70300"
+              value={extraServices}
+              onChange={(e) => setExtraServices(e.target.value)}
+              helperText="Comma-separated; lets the GATT Explorer see services the app doesn't use yet"
+              fullWidth
+            />
+
             {acceptAllDevices && (
               <Alert severity="warning">
                 <Typography variant="body2">
@@ -282,7 +425,7 @@ function App() {
       <PresetManager
         open={presetDialogOpen}
         onClose={() => setPresetDialogOpen(false)}
-        connected={connected}
+        connected={deviceReady}
       />
 
       {/* PWA Settings Dialog */}
@@ -291,8 +434,32 @@ function App() {
         onClose={() => setSettingsDialogOpen(false)}
       />
 
+      {/* Device Nickname Dialog */}
+      <DeviceNicknameDialog
+        open={nicknameDialogOpen}
+        onClose={() => setNicknameDialogOpen(false)}
+        deviceId={connected ? bleConfigService.getDeviceId() : null}
+      />
+
+      {/* BLE Traffic Log Dialog */}
+      <TrafficLogDialog
+        open={trafficLogOpen}
+        onClose={() => setTrafficLogOpen(false)}
+      />
+
+      {/* Raw GATT Explorer Dialog */}
+      <GattExplorerDialog
+        open={gattExplorerOpen && deviceReady}
+        onClose={() => setGattExplorerOpen(false)}
+      />
+
       {/* Connecting Overlay */}
-      <ConnectingOverlay open={isConnecting} />
+      <ConnectingOverlay
+        open={isConnecting}
+        phase={connectionPhase}
+        timeoutMs={bleConfigService.getPhaseTimeoutMs(connectionPhase)}
+        onCancel={handleCancelConnect}
+      />
 
       <Container
         maxWidth="md"
@@ -325,11 +492,44 @@ function App() {
 
         {error && (
           <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError('')}>
-            {error}
+            {typeof error === 'string' ? error : (
+              <>
+                {error.message}
+                {error.remediation.length > 0 && (
+                  <Box component="ul" sx={{ m: 0, mt: 0.5, pl: 2.5 }}>
+                    {error.remediation.map(step => (
+                      <li key={step}>
+                        <Typography variant="body2">{step}</Typography>
+                      </li>
+                    ))}
+                  </Box>
+                )}
+              </>
+            )}
+          </Alert>
+        )}
+
+        {isReconnecting && (
+          <Alert severity="warning" icon={<BluetoothSearchingIcon />} sx={{ mb: 2 }}>
+            <Typography variant="body2">
+              <strong>Connection lost.</strong> Trying to reconnect to {deviceDisplayName}...
+              Controls are disabled until the device is back.
+            </Typography>
+          </Alert>
+        )}
+
+        {connected && missingCharacteristics.length > 0 && (
+          <Alert severity="warning" sx={{ mb: 2 }} onClose={() => setMissingCharacteristics([])}>
+            <Typography variant="body2">
+              <strong>Older firmware detected.</strong> The device does not provide{' '}
+              {missingCharacteristics.join(', ')}. The related controls are disabled.
+            </Typography>
           </Alert>
         )}
 
-        {!connected && bluetoothAvailable && (
+        {!connected && remoteDevice && <DeviceMirrorCard state={remoteDevice} />}
+
+        {!connected && !remoteDevice && bluetoothAvailable && (
           <Alert severity="info" sx={{ mb: 2 }}>
             <Typography variant="body1" gutterBottom>
               <strong>Welcome to MLEHaptics Configuration</strong>
@@ -341,26 +541,52 @@ function App() {
           </Alert>
         )}
 
+        {!connected && !remoteDevice && bluetoothAvailable && (
+          <KnownDevicesList onConnect={handleConnectKnown} disabled={isConnecting} />
+        )}
+
+        {!connected && (
+          <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', flexWrap: 'wrap', gap: 1, mb: 2 }}>
+            <Typography variant="body2" color="text.secondary">
+              No device at hand?
+            </Typography>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<ScienceIcon />}
+              onClick={handleConnectDemo}
+              disabled={isConnecting}
+            >
+              Try Demo Device
+            </Button>
+          </Box>
+        )}
+
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: compactMode ? 1 : 2 }}>
           <MotorControl
-            connected={connected}
+            connected={deviceReady}
             onModeChange={setMotorMode}
             onLedOnlyModeChange={setLedOnlyMode}
             expanded={motorExpanded}
             onToggleExpanded={() => setMotorExpanded(!motorExpanded)}
           />
           <LEDControl
-            connected={connected}
+            connected={deviceReady}
             motorMode={motorMode}
             ledOnlyMode={ledOnlyMode}
             expanded={ledExpanded}
             onToggleExpanded={() => setLedExpanded(!ledExpanded)}
           />
           <StatusMonitor
-            connected={connected}
+            connected={deviceReady}
             expanded={statusExpanded}
             onToggleExpanded={() => setStatusExpanded(!statusExpanded)}
           />
+          <BilateralControl
+            connected={deviceReady}
+            expanded={bilateralExpanded}
+            onToggleExpanded={() => setBilateralExpanded(!bilateralExpanded)}
+          />
         </Box>
 
         {connected && (
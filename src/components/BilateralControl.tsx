@@ -0,0 +1,216 @@
+/**
+ * Bilateral Control Component
+ * Start/stop stimulation, stimulation pattern and device role (AD030)
+ * Only shown when the connected firmware has the Bilateral Control Service
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Typography,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  Box,
+  Grid,
+  Chip,
+  IconButton,
+  Snackbar,
+  Alert,
+} from '@mui/material';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import StopIcon from '@mui/icons-material/Stop';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { bilateralControlService } from '../services/bilateral-control.service';
+import { formatBLEError } from '../services/ble-errors';
+import {
+  DEVICE_ROLE_LABELS,
+  DeviceRole,
+  STIMULATION_PATTERN_LABELS,
+  StimulationPattern,
+} from '../types/bilateral.types';
+import { usePWASettings } from '../contexts/PWASettingsContext';
+import { CollapsibleCard } from './CollapsibleCard';
+
+interface BilateralControlProps {
+  connected: boolean;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+}
+
+export const BilateralControl: React.FC<BilateralControlProps> = ({ connected, expanded, onToggleExpanded }) => {
+  const { settings } = usePWASettings();
+  const compactMode = settings.ui.compactMode;
+
+  const [available, setAvailable] = useState(false);
+  const [deviceRole, setDeviceRole] = useState<DeviceRole | null>(null);
+  const [pattern, setPattern] = useState<StimulationPattern>(StimulationPattern.BILATERAL_FIXED);
+  const [sequenceNumber, setSequenceNumber] = useState<number | null>(null);
+  // The firmware doesn't report whether stimulation is running; track the last command sent
+  const [lastCommand, setLastCommand] = useState<'start' | 'stop' | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const [snackbar, setSnackbar] = useState({ open: false, message: '' });
+
+  const isSupported = bilateralControlService.isCharacteristicSupported.bind(bilateralControlService);
+
+  useEffect(() => {
+    const isAvailable = connected && bilateralControlService.isAvailable();
+    setAvailable(isAvailable);
+    setLastCommand(null);
+    if (isAvailable) {
+      refreshStatus();
+    } else {
+      setDeviceRole(null);
+      setSequenceNumber(null);
+    }
+  }, [connected]);
+
+  const refreshStatus = async () => {
+    try {
+      if (bilateralControlService.isCharacteristicSupported('DEVICE_ROLE')) {
+        setDeviceRole(await bilateralControlService.readDeviceRole());
+      }
+      if (bilateralControlService.isCharacteristicSupported('STIMULATION_PATTERN')) {
+        setPattern(await bilateralControlService.readStimulationPattern());
+      }
+      if (bilateralControlService.isCharacteristicSupported('SEQUENCE_NUMBER')) {
+        setSequenceNumber(await bilateralControlService.readSequenceNumber());
+      }
+    } catch (error) {
+      console.error('Failed to read bilateral status:', error);
+      setSnackbar({ open: true, message: 'Warning: Failed to read bilateral status from device.' });
+    }
+  };
+
+  const handleCommand = async (command: 'start' | 'stop') => {
+    setIsSending(true);
+    try {
+      if (command === 'start') {
+        await bilateralControlService.startStimulation();
+      } else {
+        await bilateralControlService.stopStimulation();
+      }
+      setLastCommand(command);
+    } catch (error) {
+      console.error(`Failed to ${command} stimulation:`, error);
+      setSnackbar({ open: true, message: `Failed to ${command} stimulation. ${formatBLEError(error)}` });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handlePatternChange = async (newPattern: StimulationPattern) => {
+    const previous = pattern;
+    setPattern(newPattern);
+    try {
+      await bilateralControlService.setStimulationPattern(newPattern);
+    } catch (error) {
+      console.error('Failed to set stimulation pattern:', error);
+      setPattern(previous);
+      setSnackbar({ open: true, message: `Failed to set stimulation pattern. ${formatBLEError(error)}` });
+    }
+  };
+
+  if (!available) {
+    return null;
+  }
+
+  // Summary view for collapsed state
+  const summaryView = (
+    <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center' }}>
+      {deviceRole !== null && (
+        <Chip label={DEVICE_ROLE_LABELS[deviceRole]} size="small" color="primary" variant="outlined" />
+      )}
+      {isSupported('STIMULATION_PATTERN') && (
+        <Chip label={STIMULATION_PATTERN_LABELS[pattern]} size="small" variant="outlined" />
+      )}
+      {lastCommand && (
+        <Chip
+          label={lastCommand === 'start' ? 'Started' : 'Stopped'}
+          size="small"
+          color={lastCommand === 'start' ? 'success' : 'default'}
+        />
+      )}
+    </Box>
+  );
+
+  return (
+    <CollapsibleCard
+      title="Bilateral Control"
+      expanded={expanded}
+      onToggle={onToggleExpanded}
+      summary={summaryView}
+      compactMode={compactMode}
+    >
+      <Grid container spacing={compactMode ? 2 : 3}>
+        {isSupported('COMMAND') && (
+          <Grid item xs={12}>
+            <Typography gutterBottom>Stimulation</Typography>
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <Button
+                variant={lastCommand === 'start' ? 'contained' : 'outlined'}
+                color="success"
+                startIcon={<PlayArrowIcon />}
+                onClick={() => handleCommand('start')}
+                disabled={!connected || isSending}
+              >
+                Start
+              </Button>
+              <Button
+                variant={lastCommand === 'stop' ? 'contained' : 'outlined'}
+                color="inherit"
+                startIcon={<StopIcon />}
+                onClick={() => handleCommand('stop')}
+                disabled={!connected || isSending}
+              >
+                Stop
+              </Button>
+            </Box>
+          </Grid>
+        )}
+
+        {isSupported('STIMULATION_PATTERN') && (
+          <Grid item xs={12}>
+            <FormControl fullWidth disabled={!connected}>
+              <InputLabel>Stimulation Pattern</InputLabel>
+              <Select
+                value={pattern}
+                label="Stimulation Pattern"
+                onChange={(e) => handlePatternChange(e.target.value as StimulationPattern)}
+              >
+                {Object.entries(STIMULATION_PATTERN_LABELS).map(([value, label]) => (
+                  <MenuItem key={value} value={Number(value)}>
+                    {label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+        )}
+
+        <Grid item xs={12}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+              Device role: {deviceRole !== null ? DEVICE_ROLE_LABELS[deviceRole] : 'Unknown'}
+              {sequenceNumber !== null && ` • Sequence #${sequenceNumber}`}
+            </Typography>
+            <IconButton size="small" onClick={refreshStatus} disabled={!connected} title="Refresh">
+              <RefreshIcon fontSize="small" />
+            </IconButton>
+          </Box>
+        </Grid>
+      </Grid>
+      <Snackbar
+        open={snackbar.open}
+        autoHideDuration={6000}
+        onClose={() => setSnackbar({ ...snackbar, open: false })}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setSnackbar({ ...snackbar, open: false })} severity="error" sx={{ width: '100%' }}>
+          {snackbar.message}
+        </Alert>
+      </Snackbar>
+    </CollapsibleCard>
+  );
+};
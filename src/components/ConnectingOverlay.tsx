@@ -1,28 +1,55 @@
 /**
  * Connecting Overlay Component
- * Shows a branded loading screen while connecting to BLE device
+ * Shows a branded loading screen while connecting to BLE device, with the current
+ * connection phase, time spent in it against its timeout, and a Cancel button
  * Responsive design: centered card on desktop, fuller on mobile
  */
 
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Dialog,
   Box,
   Typography,
+  Button,
   CircularProgress,
+  LinearProgress,
   useTheme,
   useMediaQuery,
 } from '@mui/material';
 import BluetoothSearchingIcon from '@mui/icons-material/BluetoothSearching';
+import type { ConnectionPhase } from '../types/ble-events.types';
 
 interface ConnectingOverlayProps {
   open: boolean;
+  phase: ConnectionPhase;
+  timeoutMs: number | null; // Timeout of the current phase (null: waits for the user, e.g. the chooser)
+  onCancel: () => void;
   deviceName?: string;
 }
 
-export const ConnectingOverlay: React.FC<ConnectingOverlayProps> = ({ open, deviceName }) => {
+// What each connect step is doing (phases outside the connect sequence keep the generic text)
+const PHASE_DESCRIPTIONS: Partial<Record<ConnectionPhase, string>> = {
+  requesting: 'Select your device in the browser\'s Bluetooth chooser',
+  connecting: 'Establishing the Bluetooth link...',
+  discovering: 'Discovering device features...',
+  subscribing: 'Enabling live updates...',
+  reading: 'Reading device configuration...',
+};
+
+export const ConnectingOverlay: React.FC<ConnectingOverlayProps> = ({ open, phase, timeoutMs, onCancel, deviceName }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const [elapsedMs, setElapsedMs] = useState(0);
+
+  // Each phase has its own timeout, so the clock restarts with the phase
+  useEffect(() => {
+    setElapsedMs(0);
+    if (!open || timeoutMs === null) return;
+
+    const startedAt = Date.now();
+    const timer = window.setInterval(() => setElapsedMs(Date.now() - startedAt), 250);
+    return () => clearInterval(timer);
+  }, [open, phase, timeoutMs]);
 
   return (
     <Dialog
@@ -99,16 +126,38 @@ export const ConnectingOverlay: React.FC<ConnectingOverlayProps> = ({ open, devi
             textAlign: 'center',
           }}
         >
-          Please wait while we establish the connection
+          {PHASE_DESCRIPTIONS[phase] ?? 'Please wait while we establish the connection'}
         </Typography>
 
         {/* Progress Indicator */}
         <CircularProgress
           size={isMobile ? 32 : 40}
           thickness={4}
-          sx={{ mb: 3 }}
+          sx={{ mb: timeoutMs === null ? 3 : 2 }}
         />
 
+        {/* Elapsed time against the phase timeout */}
+        {timeoutMs !== null && (
+          <Box sx={{ width: '100%', mb: 2 }}>
+            <LinearProgress
+              variant="determinate"
+              value={Math.min(100, (elapsedMs / timeoutMs) * 100)}
+              color={elapsedMs > timeoutMs * 0.75 ? 'warning' : 'primary'}
+              sx={{ height: 4, borderRadius: 2 }}
+            />
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', textAlign: 'center', mt: 0.5 }}>
+              {Math.floor(elapsedMs / 1000)}s of {Math.round(timeoutMs / 1000)}s
+            </Typography>
+          </Box>
+        )}
+
+        {/* The chooser has its own cancel; after that the half-open connection can be abandoned */}
+        {phase !== 'requesting' && (
+          <Button onClick={onCancel} color="inherit" size="small">
+            Cancel
+          </Button>
+        )}
+
         {/* App Branding */}
         <Box
           sx={{
@@ -0,0 +1,94 @@
+/**
+ * Device Mirror Card
+ * Read-only view of a device connected in another tab or window of the app
+ * (only one tab may talk to the device; the owner tab publishes its live state)
+ */
+
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  LinearProgress,
+} from '@mui/material';
+import TabIcon from '@mui/icons-material/Tab';
+import { MOTOR_MODE_LABELS, MotorMode } from '../services/ble-config.service';
+import { MirroredDeviceState } from '../types/tab-sync.types';
+
+interface DeviceMirrorCardProps {
+  state: MirroredDeviceState;
+}
+
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+export const DeviceMirrorCard: React.FC<DeviceMirrorCardProps> = ({ state }) => {
+  const { config } = state;
+  const intensities: Record<MotorMode, number> | null = config && {
+    [MotorMode.MODE_05HZ_25]: config.mode0Intensity,
+    [MotorMode.MODE_1HZ_25]: config.mode1Intensity,
+    [MotorMode.MODE_15HZ_25]: config.mode2Intensity,
+    [MotorMode.MODE_2HZ_25]: config.mode3Intensity,
+    [MotorMode.MODE_CUSTOM]: config.mode4Intensity,
+  };
+
+  return (
+    <Card sx={{ mb: 2 }} variant="outlined">
+      <CardContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <TabIcon color="primary" />
+          <Typography variant="subtitle1" sx={{ flexGrow: 1 }}>
+            {state.deviceName} is connected in another tab
+          </Typography>
+          <Chip
+            label={state.phase === 'ready' ? 'Live' : state.phase}
+            size="small"
+            color={state.phase === 'ready' ? 'success' : 'warning'}
+            variant="outlined"
+          />
+        </Box>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Read-only view. Switch to that tab to change settings, or disconnect there to control the device from here.
+        </Typography>
+
+        {config && intensities ? (
+          <Box sx={{ mt: 2, display: 'grid', gridTemplateColumns: 'auto 1fr', columnGap: 2, rowGap: 0.5 }}>
+            <Typography variant="body2" color="text.secondary">Mode</Typography>
+            <Typography variant="body2">
+              {MOTOR_MODE_LABELS[config.mode]} ({intensities[config.mode]}% intensity)
+            </Typography>
+            <Typography variant="body2" color="text.secondary">LED</Typography>
+            <Typography variant="body2">
+              {config.ledEnable ? `On, ${config.ledBrightness}% brightness` : 'Off'}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">Battery</Typography>
+            <Typography variant="body2">
+              {config.batteryLevel}%
+              {config.clientBatteryLevel > 0 && ` (other unit ${config.clientBatteryLevel}%)`}
+            </Typography>
+            <Typography variant="body2" color="text.secondary">Session</Typography>
+            <Box>
+              <Typography variant="body2">
+                {formatTime(config.sessionTime)} / {formatTime(config.sessionDuration)}
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={Math.min((config.sessionTime / config.sessionDuration) * 100, 100)}
+                sx={{ mt: 0.5, height: 6, borderRadius: 1 }}
+              />
+            </Box>
+          </Box>
+        ) : (
+          <Typography variant="body2" sx={{ mt: 2 }}>
+            Waiting for the device configuration...
+          </Typography>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
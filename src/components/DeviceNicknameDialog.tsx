@@ -0,0 +1,113 @@
+/**
+ * Device Nickname Dialog
+ * Rename the connected device so identical units can be told apart
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { deviceRegistryService } from '../services/device-registry.service';
+import { DeviceRecord } from '../types/device-registry.types';
+
+interface DeviceNicknameDialogProps {
+  open: boolean;
+  onClose: () => void;
+  deviceId: string | null;
+}
+
+const formatDuration = (ms: number): string => {
+  const totalMinutes = Math.floor(ms / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+export const DeviceNicknameDialog: React.FC<DeviceNicknameDialogProps> = ({ open, onClose, deviceId }) => {
+  const [record, setRecord] = useState<DeviceRecord | null>(null);
+  const [nickname, setNickname] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!open || !deviceId) return;
+
+    setError('');
+    deviceRegistryService.getDevice(deviceId).then(
+      (loaded) => {
+        setRecord(loaded);
+        setNickname(loaded?.nickname ?? '');
+      },
+      (err) => {
+        console.error('Failed to load device record:', err);
+        setError('Failed to load device history');
+      }
+    );
+  }, [open, deviceId]);
+
+  const handleSave = async () => {
+    if (!deviceId) return;
+    try {
+      await deviceRegistryService.setNickname(deviceId, nickname);
+      onClose();
+    } catch (err) {
+      console.error('Failed to save nickname:', err);
+      setError('Failed to save nickname');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Device Nickname</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Nickname"
+          placeholder={record?.name ?? 'e.g., Room 2 left'}
+          value={nickname}
+          onChange={(e) => setNickname(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          error={error !== ''}
+          helperText={error || 'Shown instead of the advertised name. Leave empty to use the advertised name.'}
+          inputProps={{ maxLength: 40 }}
+          fullWidth
+        />
+        {record && (
+          <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 2 }}>
+            Advertised name: {record.name}
+            <br />
+            First connected: {new Date(record.firstConnectedAt).toLocaleDateString()}
+            {' • '}Total connected: {formatDuration(record.totalConnectedMs)}
+            {record.localFirmwareVersion && (
+              <>
+                <br />
+                Firmware: {record.localFirmwareVersion}
+              </>
+            )}
+            {(record.serialNumber || record.hardwareRevision) && (
+              <>
+                <br />
+                {[
+                  record.serialNumber && `Serial: ${record.serialNumber}`,
+                  record.hardwareRevision && `Hardware: ${record.hardwareRevision}`,
+                ].filter(Boolean).join(' • ')}
+              </>
+            )}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={!record}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+/**
+ * Emergency Stop Button
+ * Always-visible app bar control that stops motors and LEDs immediately
+ * App-level counterpart of the AD011 5-second button-hold emergency stop
+ */
+
+import React, { useState } from 'react';
+import { Button, Snackbar, Alert } from '@mui/material';
+import StopCircleIcon from '@mui/icons-material/StopCircle';
+import { bleConfigService, EmergencyStopResult } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
+
+interface EmergencyStopButtonProps {
+  connected: boolean;
+}
+
+export const EmergencyStopButton: React.FC<EmergencyStopButtonProps> = ({ connected }) => {
+  const [result, setResult] = useState<EmergencyStopResult | null>(null);
+  const [noticeOpen, setNoticeOpen] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleStop = async () => {
+    setError('');
+    try {
+      setResult(await bleConfigService.emergencyStop());
+      setNoticeOpen(true);
+    } catch (err) {
+      console.error('Emergency stop failed:', err);
+      setError('Emergency stop failed. Hold the device button for 5 seconds to stop it.');
+    }
+  };
+
+  const handleRestore = async () => {
+    setIsRestoring(true);
+    try {
+      await bleConfigService.restoreAfterEmergencyStop();
+      setNoticeOpen(false);
+    } catch (err) {
+      console.error('Failed to restore after emergency stop:', err);
+      setError(`Failed to restore the previous settings. ${formatBLEError(err)}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  // Mounted for the whole app lifetime, so the notice survives a link drop and offers Restore again
+  // once auto-reconnect brings the device back (a full disconnect discards the snapshot)
+  const canRestore = result?.restorable === true && connected && bleConfigService.canRestoreAfterEmergencyStop();
+
+  const message = (stopResult: EmergencyStopResult): string => {
+    if (stopResult.method === 'shutdown') {
+      return 'Emergency shutdown sent to the device.';
+    }
+    if (stopResult.failed.length > 0) {
+      return `Stop incomplete: could not write ${stopResult.failed.join(', ')}. Hold the device button for 5 seconds.`;
+    }
+    return 'Motors and LED stopped.';
+  };
+
+  return (
+    <>
+      <Button
+        variant="contained"
+        color="error"
+        onClick={handleStop}
+        disabled={!connected}
+        startIcon={<StopCircleIcon />}
+        title="Emergency stop: motors and LED off"
+        sx={{ mr: 1, fontWeight: 'bold' }}
+      >
+        STOP
+      </Button>
+
+      {/* Stays open until dismissed so Restore remains one tap away */}
+      <Snackbar
+        open={noticeOpen && result !== null}
+        onClose={(_, reason) => reason !== 'clickaway' && setNoticeOpen(false)}
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <Alert
+          severity={result && result.failed.length > 0 ? 'error' : 'warning'}
+          onClose={() => setNoticeOpen(false)}
+          action={
+            canRestore ? (
+              <Button color="inherit" size="small" onClick={handleRestore} disabled={isRestoring}>
+                Restore
+              </Button>
+            ) : undefined
+          }
+          sx={{ width: '100%' }}
+        >
+          {result && message(result)}
+        </Alert>
+      </Snackbar>
+
+      <Snackbar
+        open={error !== ''}
+        autoHideDuration={6000}
+        onClose={() => setError('')}
+        anchorOrigin={{ vertical: 'top', horizontal: 'center' }}
+      >
+        <Alert severity="error" onClose={() => setError('')} sx={{ width: '100%' }}>
+          {error}
+        </Alert>
+      </Snackbar>
+    </>
+  );
+};
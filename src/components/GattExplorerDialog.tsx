@@ -0,0 +1,308 @@
+/**
+ * GATT Explorer Dialog
+ * Lists every service, characteristic and descriptor of the connected device and gives raw access
+ * (read, write hex, notifications), so new firmware characteristics can be tried before the app knows them
+ * Advanced mode only
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  IconButton,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  TextField,
+  Typography,
+  Box,
+  Chip,
+  Alert,
+  CircularProgress,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import RefreshIcon from '@mui/icons-material/Refresh';
+import { bleConfigService, CHARACTERISTICS } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
+import {
+  RAW_VALUE_FORMAT_LABELS,
+  RawValueFormat,
+  formatRawValue,
+  parseHexBytes,
+} from '../services/raw-value-format';
+import { BULK_CONFIG_CHARACTERISTICS, CONFIG_SERVICE_UUID } from '../types/characteristic.types';
+import { BILATERAL_SERVICE_LAYOUTS } from '../types/bilateral.types';
+import { RawGattCharacteristic, RawGattProperties, RawGattService } from '../types/transport.types';
+
+interface GattExplorerDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// App names for the UUIDs it already knows
+const KNOWN_UUID_NAMES: ReadonlyMap<string, string> = new Map([
+  [CONFIG_SERVICE_UUID, 'Configuration Service'],
+  ...Object.entries(CHARACTERISTICS).map(([key, uuid]) => [uuid, key] as [string, string]),
+  ...Object.entries(BULK_CONFIG_CHARACTERISTICS).map(([key, uuid]) => [uuid, key] as [string, string]),
+  ...BILATERAL_SERVICE_LAYOUTS.flatMap(layout => [
+    [layout.serviceUuid, 'Bilateral Control Service'] as [string, string],
+    ...Object.entries(layout.characteristics).map(([key, uuid]) => [uuid, key] as [string, string]),
+  ]),
+].map(([uuid, name]) => [uuid.toLowerCase(), name]));
+
+const BLUETOOTH_BASE_UUID = /^0000([0-9a-f]{4})-0000-1000-8000-00805f9b34fb$/;
+
+/**
+ * 16-bit SIG UUIDs as 0xXXXX, everything else unchanged
+ */
+const formatUuid = (uuid: string): string => {
+  const match = BLUETOOTH_BASE_UUID.exec(uuid);
+  return match ? `0x${match[1].toUpperCase()}` : uuid;
+};
+
+const PROPERTY_LABELS: Record<keyof RawGattProperties, string> = {
+  read: 'read',
+  write: 'write',
+  writeWithoutResponse: 'write w/o resp',
+  notify: 'notify',
+  indicate: 'indicate',
+};
+
+interface RawCharacteristicPanelProps {
+  characteristic: RawGattCharacteristic;
+  format: RawValueFormat;
+}
+
+const RawCharacteristicPanel: React.FC<RawCharacteristicPanelProps> = ({ characteristic, format }) => {
+  const { properties } = characteristic;
+  const [value, setValue] = useState<Uint8Array | null>(null);
+  const [valueSource, setValueSource] = useState<'read' | 'notify'>('read');
+  const [hexInput, setHexInput] = useState('');
+  const [notifying, setNotifying] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  // Drop the explorer's notification listener when the dialog closes
+  useEffect(() => {
+    if (!notifying) return;
+    return () => {
+      characteristic.stopNotifications().catch(err => console.warn('Failed to stop notifications:', err));
+    };
+  }, [notifying, characteristic]);
+
+  const run = async (operation: () => Promise<void>) => {
+    setBusy(true);
+    setError('');
+    try {
+      await operation();
+    } catch (err) {
+      setError(formatBLEError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRead = () => run(async () => {
+    const view = await characteristic.read();
+    setValue(new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength)));
+    setValueSource('read');
+  });
+
+  const handleWrite = () => run(async () => {
+    const bytes = parseHexBytes(hexInput);
+    await characteristic.write(bytes, properties.write);
+  });
+
+  const handleNotifyToggle = (enable: boolean) => run(async () => {
+    if (enable) {
+      await characteristic.startNotifications((view) => {
+        setValue(new Uint8Array(view.buffer.slice(view.byteOffset, view.byteOffset + view.byteLength)));
+        setValueSource('notify');
+      });
+      setNotifying(true);
+    } else {
+      // The effect cleanup stops the notifications
+      setNotifying(false);
+    }
+  });
+
+  const canWrite = properties.write || properties.writeWithoutResponse;
+  const canNotify = properties.notify || properties.indicate;
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+        {(Object.keys(PROPERTY_LABELS) as (keyof RawGattProperties)[])
+          .filter(property => properties[property])
+          .map(property => (
+            <Chip key={property} label={PROPERTY_LABELS[property]} size="small" variant="outlined" />
+          ))}
+      </Box>
+
+      {characteristic.descriptorUuids.length > 0 && (
+        <Typography variant="caption" color="text.secondary">
+          Descriptors: {characteristic.descriptorUuids.map(formatUuid).join(', ')}
+        </Typography>
+      )}
+
+      {(properties.read || canNotify) && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          {properties.read && (
+            <Button size="small" variant="outlined" onClick={handleRead} disabled={busy}>
+              Read
+            </Button>
+          )}
+          {canNotify && (
+            <FormControlLabel
+              control={
+                <Switch
+                  size="small"
+                  checked={notifying}
+                  onChange={(e) => handleNotifyToggle(e.target.checked)}
+                  disabled={busy}
+                />
+              }
+              label="Notify"
+            />
+          )}
+          <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+            {value ? `${formatRawValue(value, format)}${valueSource === 'notify' ? ' (notification)' : ''}` : '—'}
+          </Typography>
+        </Box>
+      )}
+
+      {canWrite && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <TextField
+            size="small"
+            label="Hex value"
+            placeholder="e.g. 01 ff"
+            value={hexInput}
+            onChange={(e) => setHexInput(e.target.value)}
+            sx={{ flexGrow: 1 }}
+            inputProps={{ style: { fontFamily: 'monospace' } }}
+          />
+          <Button size="small" variant="outlined" onClick={handleWrite} disabled={busy || hexInput.trim() === ''}>
+            Write
+          </Button>
+        </Box>
+      )}
+
+      {error && <Alert severity="error">{error}</Alert>}
+    </Box>
+  );
+};
+
+export const GattExplorerDialog: React.FC<GattExplorerDialogProps> = ({ open, onClose }) => {
+  const [services, setServices] = useState<RawGattService[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [format, setFormat] = useState<RawValueFormat>('hex');
+
+  const loadServices = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setServices(await bleConfigService.exploreGatt());
+    } catch (err) {
+      setServices([]);
+      setError(formatBLEError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadServices();
+    } else {
+      // Unmounts the panels, which stops their notifications
+      setServices([]);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>GATT Explorer</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, pt: 1, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 200 }}>
+            <InputLabel>Show values as</InputLabel>
+            <Select
+              value={format}
+              label="Show values as"
+              onChange={(e) => setFormat(e.target.value as RawValueFormat)}
+            >
+              {(Object.keys(RAW_VALUE_FORMAT_LABELS) as RawValueFormat[]).map(option => (
+                <MenuItem key={option} value={option}>
+                  {RAW_VALUE_FORMAT_LABELS[option]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ flexGrow: 1 }} />
+          <IconButton onClick={loadServices} disabled={loading} title="Rediscover services">
+            <RefreshIcon />
+          </IconButton>
+        </Box>
+
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          Writes go straight to the device without validation. Only services the app requested access to
+          when connecting are listed.
+        </Alert>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          services.map(service => (
+            <Box key={service.uuid} sx={{ mb: 2 }}>
+              <Typography variant="subtitle2">
+                {KNOWN_UUID_NAMES.get(service.uuid) ?? 'Unknown service'}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                {formatUuid(service.uuid)}
+              </Typography>
+              {service.characteristics.map(characteristic => (
+                <Accordion key={characteristic.uuid} disableGutters TransitionProps={{ unmountOnExit: true }}>
+                  <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+                    <Box>
+                      <Typography variant="body2">
+                        {characteristic.userDescription ??
+                          KNOWN_UUID_NAMES.get(characteristic.uuid) ??
+                          'Unknown characteristic'}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                        {formatUuid(characteristic.uuid)}
+                      </Typography>
+                    </Box>
+                  </AccordionSummary>
+                  <AccordionDetails>
+                    <RawCharacteristicPanel characteristic={characteristic} format={format} />
+                  </AccordionDetails>
+                </Accordion>
+              ))}
+            </Box>
+          ))
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
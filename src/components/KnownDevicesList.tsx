@@ -0,0 +1,82 @@
+/**
+ * Known Devices List
+ * One-tap connect to devices this browser already has permission for (no chooser)
+ * Shows which of them are advertising nearby
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+} from '@mui/material';
+import BluetoothIcon from '@mui/icons-material/Bluetooth';
+import { knownDevicesService, KnownDevice } from '../services/known-devices.service';
+import { deviceRegistryService } from '../services/device-registry.service';
+
+interface KnownDevicesListProps {
+  onConnect: (deviceId: string) => void;
+  disabled: boolean;
+}
+
+export const KnownDevicesList: React.FC<KnownDevicesListProps> = ({ onConnect, disabled }) => {
+  const [devices, setDevices] = useState<KnownDevice[]>([]);
+  const [nicknames, setNicknames] = useState<Map<string, string>>(new Map());
+
+  useEffect(() => {
+    deviceRegistryService.getAllDevices().then(
+      (records) => setNicknames(new Map(
+        records.flatMap(record => (record.nickname ? [[record.id, record.nickname] as const] : []))
+      )),
+      (error) => console.warn('Failed to load device nicknames:', error)
+    );
+  }, []);
+
+  useEffect(() => {
+    // Watching stops while connecting (the list unmounts once connected)
+    if (disabled) return;
+    return knownDevicesService.watch(setDevices);
+  }, [disabled]);
+
+  if (devices.length === 0) {
+    return null;
+  }
+
+  // Nearby devices first, keeping the browser's order otherwise
+  const sorted = [...devices].sort((a, b) => Number(b.nearby === true) - Number(a.nearby === true));
+
+  return (
+    <Card sx={{ mb: 2 }}>
+      <CardContent sx={{ pb: 1, '&:last-child': { pb: 1 } }}>
+        <Typography variant="subtitle1" gutterBottom>
+          Known devices
+        </Typography>
+        <List dense disablePadding>
+          {sorted.map(device => (
+            <ListItemButton key={device.id} onClick={() => onConnect(device.id)} disabled={disabled}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                <BluetoothIcon color={device.nearby ? 'primary' : 'disabled'} />
+              </ListItemIcon>
+              <ListItemText
+                primary={nicknames.get(device.id) ?? device.name}
+                secondary={
+                  device.nearby === null
+                    ? 'Tap to connect'
+                    : device.nearby
+                      ? `Nearby${device.rssi !== null ? ` (${device.rssi} dBm)` : ''}`
+                      : 'Not seen nearby'
+                }
+              />
+              {device.nearby && <Chip label="Nearby" size="small" color="success" variant="outlined" />}
+            </ListItemButton>
+          ))}
+        </List>
+      </CardContent>
+    </Card>
+  );
+};
@@ -15,7 +15,10 @@ import {
   Snackbar,
 } from '@mui/material';
 import { COLOR_PALETTE, bleConfigService, MotorMode, MOTOR_MODE_LABELS } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
 import { useDebouncedBLESend } from '../hooks/useDebouncedBLESend';
+import { useCharacteristicSupport } from '../hooks/useCharacteristicSupport';
+import { CHARACTERISTIC_SCHEMA } from '../types/characteristic.types';
 import { usePWASettings } from '../contexts/PWASettingsContext';
 import { CollapsibleCard } from './CollapsibleCard';
 
@@ -27,9 +30,14 @@ interface LEDControlProps {
   onToggleExpanded: () => void;
 }
 
+// Slider limits from the characteristic schema
+const RGB_RANGE = CHARACTERISTIC_SCHEMA.LED_CUSTOM_RGB.range;
+const BRIGHTNESS_RANGE = CHARACTERISTIC_SCHEMA.LED_BRIGHTNESS.range;
+
 export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, ledOnlyMode, expanded, onToggleExpanded }) => {
   const { settings } = usePWASettings();
   const compactMode = settings.ui.compactMode;
+  const isSupported = useCharacteristicSupport(connected);
 
   // In LED-only mode, LED must stay enabled (can't turn off - would leave device appearing broken)
   const isLedLocked = ledOnlyMode && motorMode === MotorMode.MODE_CUSTOM;
@@ -77,7 +85,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
       loadConfig();
 
       // Subscribe to config changes (e.g., when presets are loaded)
-      const unsubscribeConfig = bleConfigService.onConfigChange((config) => {
+      const unsubscribeConfig = bleConfigService.on('config', (config) => {
         console.log('Config changed, updating LED control:', config);
         setLEDEnable(config.ledEnable);
         setColorMode(config.ledColorMode);
@@ -101,7 +109,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
       if (!config) {
         // Fallback: read from device if cache is empty
         console.log('Cache miss, reading LED config from device...');
-        config = await bleConfigService.readConfig();
+        config = (await bleConfigService.readConfig()).config;
       } else {
         console.log('Using cached LED config:', {
           ledEnable: config.ledEnable,
@@ -131,6 +139,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
         await bleConfigService.setLEDEnable(enable);
       } catch (error) {
         console.error('Failed to set LED enable:', error);
+        setSnackbar({ open: true, message: `Failed to set LED enable. ${formatBLEError(error)}` });
       }
     }
   };
@@ -143,6 +152,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
         await bleConfigService.setLEDColorMode(mode);
       } catch (error) {
         console.error('Failed to set color mode:', error);
+        setSnackbar({ open: true, message: `Failed to set color mode. ${formatBLEError(error)}` });
       }
     }
   };
@@ -154,6 +164,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
         await bleConfigService.setLEDPaletteIndex(index);
       } catch (error) {
         console.error('Failed to set palette index:', error);
+        setSnackbar({ open: true, message: `Failed to set palette index. ${formatBLEError(error)}` });
       }
     }
   };
@@ -178,6 +189,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
         await bleConfigService.setLEDCustomRGB(newRGB);
       } catch (error) {
         console.error('Failed to set custom RGB:', error);
+        setSnackbar({ open: true, message: `Failed to set custom RGB. ${formatBLEError(error)}` });
       }
     }
   };
@@ -197,6 +209,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
         await bleConfigService.setLEDBrightness(bright);
       } catch (error) {
         console.error('Failed to set brightness:', error);
+        setSnackbar({ open: true, message: `Failed to set brightness. ${formatBLEError(error)}` });
       }
     }
   };
@@ -263,7 +276,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                 <Switch
                   checked={isLedLocked ? true : ledEnable}
                   onChange={handleLEDEnableChange}
-                  disabled={!connected || !isCustomMode || isLedLocked}
+                  disabled={!connected || !isCustomMode || isLedLocked || !isSupported('LED_ENABLE')}
                 />
               }
               label="LED Enable"
@@ -276,7 +289,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
           </Grid>
 
           <Grid item xs={12}>
-            <FormControl component="fieldset" disabled={!connected || !isCustomMode || !ledEnable}>
+            <FormControl component="fieldset" disabled={!connected || !isCustomMode || !ledEnable || !isSupported('LED_COLOR_MODE')}>
               <Typography gutterBottom>Color Mode</Typography>
               <RadioGroup value={colorMode} onChange={handleColorModeChange} row>
                 <FormControlLabel value={0} control={<Radio />} label="Palette" />
@@ -294,7 +307,7 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                     key={index}
                     variant={paletteIndex === index ? 'contained' : 'outlined'}
                     onClick={() => handlePaletteSelect(index)}
-                    disabled={!connected || !isCustomMode || !ledEnable}
+                    disabled={!connected || !isCustomMode || !ledEnable || !isSupported('LED_PALETTE_INDEX')}
                     sx={{
                       minWidth: 80,
                       bgcolor: paletteIndex === index ? rgbToHex(color.rgb as [number, number, number]) : 'transparent',
@@ -322,9 +335,9 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                     onChangeCommitted={(_, value) => handleRGBCommitted('r', value as number)}
                     onMouseDown={rgbDebounce.onInteractionStart}
                     onTouchStart={rgbDebounce.onInteractionStart}
-                    min={0}
-                    max={255}
-                    disabled={!connected || !isCustomMode || !ledEnable}
+                    min={RGB_RANGE.min}
+                    max={RGB_RANGE.max}
+                    disabled={!connected || !isCustomMode || !ledEnable || !isSupported('LED_CUSTOM_RGB')}
                     sx={{ color: '#f44336', touchAction: 'none' }}
                   />
                 </Box>
@@ -339,9 +352,9 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                     onChangeCommitted={(_, value) => handleRGBCommitted('g', value as number)}
                     onMouseDown={rgbDebounce.onInteractionStart}
                     onTouchStart={rgbDebounce.onInteractionStart}
-                    min={0}
-                    max={255}
-                    disabled={!connected || !isCustomMode || !ledEnable}
+                    min={RGB_RANGE.min}
+                    max={RGB_RANGE.max}
+                    disabled={!connected || !isCustomMode || !ledEnable || !isSupported('LED_CUSTOM_RGB')}
                     sx={{ color: '#4caf50', touchAction: 'none' }}
                   />
                 </Box>
@@ -356,9 +369,9 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                     onChangeCommitted={(_, value) => handleRGBCommitted('b', value as number)}
                     onMouseDown={rgbDebounce.onInteractionStart}
                     onTouchStart={rgbDebounce.onInteractionStart}
-                    min={0}
-                    max={255}
-                    disabled={!connected || !isCustomMode || !ledEnable}
+                    min={RGB_RANGE.min}
+                    max={RGB_RANGE.max}
+                    disabled={!connected || !isCustomMode || !ledEnable || !isSupported('LED_CUSTOM_RGB')}
                     sx={{ color: '#2196f3', touchAction: 'none' }}
                   />
                 </Box>
@@ -397,15 +410,15 @@ export const LEDControl: React.FC<LEDControlProps> = ({ connected, motorMode, le
                 onChangeCommitted={handleBrightnessCommitted}
                 onMouseDown={brightnessDebounce.onInteractionStart}
                 onTouchStart={brightnessDebounce.onInteractionStart}
-                min={10}
-                max={30}
+                min={BRIGHTNESS_RANGE.min}
+                max={BRIGHTNESS_RANGE.max}
                 step={1}
                 marks={[
-                  { value: 10, label: '10%' },
+                  { value: BRIGHTNESS_RANGE.min, label: `${BRIGHTNESS_RANGE.min}%` },
                   { value: 20, label: '20%' },
-                  { value: 30, label: '30%' },
+                  { value: BRIGHTNESS_RANGE.max, label: `${BRIGHTNESS_RANGE.max}%` },
                 ]}
-                disabled={!connected}
+                disabled={!connected || !isSupported('LED_BRIGHTNESS')}
                 valueLabelDisplay="auto"
                 valueLabelFormat={(value) => `${value}%`}
                 sx={{ touchAction: 'none' }}
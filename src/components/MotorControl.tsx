@@ -15,7 +15,11 @@ import {
   Chip,
 } from '@mui/material';
 import { MotorMode, MOTOR_MODE_LABELS, bleConfigService } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
 import { useDebouncedBLESend } from '../hooks/useDebouncedBLESend';
+import { useCharacteristicSupport } from '../hooks/useCharacteristicSupport';
+import { useFirmwareCapabilities } from '../hooks/useFirmwareCapabilities';
+import { CHARACTERISTIC_SCHEMA } from '../types/characteristic.types';
 import { usePWASettings } from '../contexts/PWASettingsContext';
 import { CollapsibleCard } from './CollapsibleCard';
 
@@ -27,15 +31,6 @@ interface MotorControlProps {
   onToggleExpanded: () => void;
 }
 
-// Mode intensity range configuration
-const MODE_INTENSITY_RANGES: Record<MotorMode, { min: number; max: number }> = {
-  [MotorMode.MODE_05HZ_25]: { min: 50, max: 80 },
-  [MotorMode.MODE_1HZ_25]: { min: 50, max: 80 },
-  [MotorMode.MODE_15HZ_25]: { min: 70, max: 90 },
-  [MotorMode.MODE_2HZ_25]: { min: 70, max: 90 },
-  [MotorMode.MODE_CUSTOM]: { min: 30, max: 80 },
-};
-
 // Generic logarithmic scale helpers for percentage-based sliders
 const createLogScaleHelpers = (minVal: number, maxVal: number) => {
   const minLog = Math.log2(minVal);
@@ -55,14 +50,24 @@ const createLogScaleHelpers = (minVal: number, maxVal: number) => {
 };
 
 // Pre-computed log scale helpers for frequency (25-200)
-const freqLogScale = createLogScaleHelpers(25, 200);
+const FREQUENCY_RANGE = CHARACTERISTIC_SCHEMA.CUSTOM_FREQUENCY.range;
+const freqLogScale = createLogScaleHelpers(FREQUENCY_RANGE.min, FREQUENCY_RANGE.max);
 
 // Pre-computed log scale helpers for duty cycle (10-100)
-const dutyLogScale = createLogScaleHelpers(10, 100);
+const DUTY_CYCLE_RANGE = CHARACTERISTIC_SCHEMA.CUSTOM_DUTY_CYCLE.range;
+const dutyLogScale = createLogScaleHelpers(DUTY_CYCLE_RANGE.min, DUTY_CYCLE_RANGE.max);
+
+// Lowest motor intensity for Mode 4 (0 is the LED-only special value)
+const MODE_4_MIN_INTENSITY = CHARACTERISTIC_SCHEMA.MODE_4_INTENSITY.range.min;
+
+// Firmware without MODE notifications: poll so device button presses still show up
+const MODE_POLL_INTERVAL_MS = 5000;
 
 export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeChange, onLedOnlyModeChange, expanded, onToggleExpanded }) => {
   const { settings } = usePWASettings();
   const compactMode = settings.ui.compactMode;
+  const isSupported = useCharacteristicSupport(connected);
+  const capabilities = useFirmwareCapabilities(connected);
 
   const [mode, setMode] = useState<MotorMode>(MotorMode.MODE_05HZ_25);
   const [customFrequency, setCustomFrequency] = useState(100); // 1.00 Hz
@@ -87,15 +92,20 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
     onLedOnlyModeChange?.(ledOnlyMode);
   }, [ledOnlyMode, onLedOnlyModeChange]);
 
+  // Firmware without per-mode intensities has one intensity (MODE_4_INTENSITY) for every mode
+  const intensityMode = capabilities.perModeIntensity ? mode : MotorMode.MODE_CUSTOM;
+  const ledOnlyAvailable = mode === MotorMode.MODE_CUSTOM && capabilities.ledOnlyIntensity;
+
   // Get current mode's intensity range and log scale helpers
-  const currentIntensityRange = MODE_INTENSITY_RANGES[mode];
+  const currentIntensityRange = CHARACTERISTIC_SCHEMA[`MODE_${intensityMode}_INTENSITY`].range;
   const intensityLogScale = useMemo(
     () => createLogScaleHelpers(currentIntensityRange.min, currentIntensityRange.max),
     [currentIntensityRange.min, currentIntensityRange.max]
   );
 
   // Current mode's intensity value
-  const currentIntensity = modeIntensities[mode];
+  const currentIntensity = modeIntensities[intensityMode];
+  const intensitySupported = isSupported(`MODE_${intensityMode}_INTENSITY`);
 
   // Debounced BLE sends for sliders (pause-to-send functionality)
   const frequencyDebounce = useDebouncedBLESend(
@@ -120,7 +130,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
     currentIntensity,
     async (intensity) => {
       if (connected) {
-        await bleConfigService.setModeIntensity(mode, intensity);
+        await bleConfigService.setModeIntensity(intensityMode, intensity);
       }
     }
   );
@@ -130,14 +140,14 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
       loadConfig();
 
       // Subscribe to MODE notifications to detect changes from device button
-      const unsubscribeMode = bleConfigService.subscribe('MODE', (newMode: MotorMode) => {
+      const unsubscribeMode = bleConfigService.subscribe('MODE', (newMode) => {
         console.log('MODE changed on device:', newMode);
         setMode(newMode);
         onModeChange?.(newMode);
       });
 
       // Subscribe to config changes (e.g., when presets are loaded)
-      const unsubscribeConfig = bleConfigService.onConfigChange((config) => {
+      const unsubscribeConfig = bleConfigService.on('config', (config) => {
         console.log('Config changed, updating motor control:', config);
         setMode(config.mode);
         setCustomFrequency(config.customFrequency);
@@ -148,7 +158,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         setLedOnlyMode(isLedOnly);
 
         // Save intensity for LED-only toggle restoration
-        if (!isLedOnly && config.mode4Intensity >= 30) {
+        if (!isLedOnly && config.mode4Intensity >= MODE_4_MIN_INTENSITY) {
           setSavedMode4Intensity(config.mode4Intensity);
         }
 
@@ -163,10 +173,24 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         onModeChange?.(config.mode);
       });
 
+      // Without MODE notifications, poll for changes made with the device button
+      const modePollTimer = bleConfigService.getFirmwareCapabilities().modeNotify
+        ? null
+        : window.setInterval(async () => {
+            try {
+              const newMode = await bleConfigService.readCharacteristic('MODE');
+              setMode(newMode);
+              onModeChange?.(newMode);
+            } catch (error) {
+              console.warn('Failed to poll MODE:', error);
+            }
+          }, MODE_POLL_INTERVAL_MS);
+
       // Cleanup subscriptions on disconnect
       return () => {
         unsubscribeMode();
         unsubscribeConfig();
+        if (modePollTimer !== null) clearInterval(modePollTimer);
       };
     }
   }, [connected]);
@@ -179,7 +203,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
       if (!config) {
         // Fallback: read from device if cache is empty
         console.log('Cache miss, reading motor config from device...');
-        config = await bleConfigService.readConfig();
+        config = (await bleConfigService.readConfig()).config;
       } else {
         console.log('Using cached motor config');
       }
@@ -197,7 +221,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
       if (isLedOnly) {
         // Device was in LED-only mode; keep saved intensity at default
         setSavedMode4Intensity(55);
-      } else if (config.mode4Intensity >= 30) {
+      } else if (config.mode4Intensity >= MODE_4_MIN_INTENSITY) {
         // Save the current valid intensity
         setSavedMode4Intensity(config.mode4Intensity);
       }
@@ -225,6 +249,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         await bleConfigService.setMotorMode(newMode);
       } catch (error) {
         console.error('Failed to set motor mode:', error);
+        setSnackbar({ open: true, message: `Failed to set motor mode. ${formatBLEError(error)}` });
       }
     }
   };
@@ -238,19 +263,20 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         if (enabled) {
           // Save current intensity before switching to LED-only
           const currentIntensity = modeIntensities[MotorMode.MODE_CUSTOM];
-          if (currentIntensity >= 30) {
+          if (currentIntensity >= MODE_4_MIN_INTENSITY) {
             setSavedMode4Intensity(currentIntensity);
           }
           // Set intensity to 0 (LED-only mode)
           await bleConfigService.setModeIntensity(MotorMode.MODE_CUSTOM, 0);
         } else {
           // Restore previous intensity (or default 55%)
-          const restoreIntensity = savedMode4Intensity >= 30 ? savedMode4Intensity : 55;
+          const restoreIntensity = savedMode4Intensity >= MODE_4_MIN_INTENSITY ? savedMode4Intensity : 55;
           setModeIntensities(prev => ({ ...prev, [MotorMode.MODE_CUSTOM]: restoreIntensity }));
           await bleConfigService.setModeIntensity(MotorMode.MODE_CUSTOM, restoreIntensity);
         }
       } catch (error) {
         console.error('Failed to toggle LED-only mode:', error);
+        setSnackbar({ open: true, message: `Failed to toggle LED-only mode. ${formatBLEError(error)}` });
         // Revert the toggle on error
         setLedOnlyMode(!enabled);
       }
@@ -273,6 +299,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         await bleConfigService.setCustomFrequency(freq);
       } catch (error) {
         console.error('Failed to set frequency:', error);
+        setSnackbar({ open: true, message: `Failed to set frequency. ${formatBLEError(error)}` });
       }
     }
   };
@@ -293,6 +320,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
         await bleConfigService.setCustomDutyCycle(duty);
       } catch (error) {
         console.error('Failed to set duty cycle:', error);
+        setSnackbar({ open: true, message: `Failed to set duty cycle. ${formatBLEError(error)}` });
       }
     }
   };
@@ -301,10 +329,10 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
   const handleIntensityChange = (_: Event, value: number | number[]) => {
     const sliderValue = value as number;
     const intensity = intensityLogScale.sliderToValue(sliderValue);
-    setModeIntensities(prev => ({ ...prev, [mode]: intensity }));
+    setModeIntensities(prev => ({ ...prev, [intensityMode]: intensity }));
 
     // For Mode 4, save intensity for LED-only toggle restoration
-    if (mode === MotorMode.MODE_CUSTOM && intensity >= 30) {
+    if (intensityMode === MotorMode.MODE_CUSTOM && intensity >= MODE_4_MIN_INTENSITY) {
       setSavedMode4Intensity(intensity);
     }
   };
@@ -315,9 +343,10 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
     const intensity = intensityLogScale.sliderToValue(sliderValue);
     if (connected) {
       try {
-        await bleConfigService.setModeIntensity(mode, intensity);
+        await bleConfigService.setModeIntensity(intensityMode, intensity);
       } catch (error) {
         console.error('Failed to set intensity:', error);
+        setSnackbar({ open: true, message: `Failed to set intensity. ${formatBLEError(error)}` });
       }
     }
   };
@@ -338,9 +367,9 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
     <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1, alignItems: 'center' }}>
       <Chip label={MOTOR_MODE_LABELS[mode]} size="small" color="primary" variant="outlined" />
       <Chip
-        label={ledOnlyMode && mode === MotorMode.MODE_CUSTOM ? 'LED Only' : `${currentIntensity}%`}
+        label={ledOnlyMode && ledOnlyAvailable ? 'LED Only' : `${currentIntensity}%`}
         size="small"
-        color={ledOnlyMode && mode === MotorMode.MODE_CUSTOM ? 'secondary' : 'default'}
+        color={ledOnlyMode && ledOnlyAvailable ? 'secondary' : 'default'}
       />
       {mode === MotorMode.MODE_CUSTOM && (
         <>
@@ -361,7 +390,7 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
     >
       <Grid container spacing={compactMode ? 2 : 3}>
           <Grid item xs={12}>
-            <FormControl fullWidth disabled={!connected}>
+            <FormControl fullWidth disabled={!connected || !isSupported('MODE')}>
               <InputLabel>Mode</InputLabel>
               <Select
                 value={mode}
@@ -394,12 +423,12 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
                     max={100}
                     step={0.1}
                     marks={[
-                      { value: freqLogScale.valueToSlider(25), label: '0.25 Hz' },
+                      { value: freqLogScale.valueToSlider(FREQUENCY_RANGE.min), label: `${FREQUENCY_RANGE.min / 100} Hz` },
                       { value: freqLogScale.valueToSlider(50), label: '0.5 Hz' },
                       { value: freqLogScale.valueToSlider(100), label: '1.0 Hz' },
-                      { value: freqLogScale.valueToSlider(200), label: '2.0 Hz' },
+                      { value: freqLogScale.valueToSlider(FREQUENCY_RANGE.max), label: `${(FREQUENCY_RANGE.max / 100).toFixed(1)} Hz` },
                     ]}
-                    disabled={!connected}
+                    disabled={!connected || !isSupported('CUSTOM_FREQUENCY')}
                     valueLabelDisplay="auto"
                     valueLabelFormat={(value) => `${(freqLogScale.sliderToValue(value) / 100).toFixed(2)} Hz`}
                     sx={{ touchAction: 'none' }}
@@ -422,11 +451,11 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
                     max={100}
                     step={0.1}
                     marks={[
-                      { value: dutyLogScale.valueToSlider(10), label: '10%' },
+                      { value: dutyLogScale.valueToSlider(DUTY_CYCLE_RANGE.min), label: `${DUTY_CYCLE_RANGE.min}%` },
                       { value: dutyLogScale.valueToSlider(32), label: '32%' },
-                      { value: dutyLogScale.valueToSlider(100), label: '100%' },
+                      { value: dutyLogScale.valueToSlider(DUTY_CYCLE_RANGE.max), label: `${DUTY_CYCLE_RANGE.max}%` },
                     ]}
-                    disabled={!connected}
+                    disabled={!connected || !isSupported('CUSTOM_DUTY_CYCLE')}
                     valueLabelDisplay="auto"
                     valueLabelFormat={(value) => `${dutyLogScale.sliderToValue(value)}%`}
                     sx={{ touchAction: 'none' }}
@@ -439,15 +468,15 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
           <Grid item xs={12}>
             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
               <Typography>
-                Intensity: {ledOnlyMode && mode === MotorMode.MODE_CUSTOM ? '0%' : `${currentIntensity}%`}
+                Intensity: {ledOnlyMode && ledOnlyAvailable ? '0%' : `${currentIntensity}%`}
               </Typography>
-              {mode === MotorMode.MODE_CUSTOM && (
+              {ledOnlyAvailable && (
                 <FormControlLabel
                   control={
                     <Switch
                       checked={ledOnlyMode}
                       onChange={(e) => handleLedOnlyToggle(e.target.checked)}
-                      disabled={!connected}
+                      disabled={!connected || !isSupported('MODE_4_INTENSITY')}
                       size="small"
                     />
                   }
@@ -468,15 +497,19 @@ export const MotorControl: React.FC<MotorControlProps> = ({ connected, onModeCha
                 max={100}
                 step={0.1}
                 marks={intensityMarks}
-                disabled={!connected || (mode === MotorMode.MODE_CUSTOM && ledOnlyMode)}
+                disabled={!connected || !intensitySupported || (ledOnlyAvailable && ledOnlyMode)}
                 valueLabelDisplay="auto"
                 valueLabelFormat={(value) => `${intensityLogScale.sliderToValue(value)}%`}
                 sx={{ touchAction: 'none' }}
               />
             </Box>
             <Typography variant="caption" color="text.secondary">
-              {mode === MotorMode.MODE_CUSTOM && ledOnlyMode
+              {connected && !intensitySupported
+                ? 'Intensity for this mode is not supported by the device firmware'
+                : ledOnlyAvailable && ledOnlyMode
                 ? 'Motors disabled - LED visual feedback only'
+                : !capabilities.perModeIntensity
+                ? `Motor power for all modes (${currentIntensityRange.min}-${currentIntensityRange.max}%) - this firmware has one intensity setting`
                 : `Motor power for ${MOTOR_MODE_LABELS[mode]} mode (${currentIntensityRange.min}-${currentIntensityRange.max}%)`}
             </Typography>
           </Grid>
@@ -27,7 +27,9 @@ import FileDownloadIcon from '@mui/icons-material/FileDownload';
 import FileUploadIcon from '@mui/icons-material/FileUpload';
 import { DevicePreset, PresetConfig } from '../types/preset.types';
 import { presetStorageService } from '../services/preset-storage.service';
-import { bleConfigService, MOTOR_MODE_LABELS, COLOR_PALETTE } from '../services/ble-config.service';
+import { bleConfigService, MOTOR_MODE_LABELS, COLOR_PALETTE, ApplyConfigResult, ConfigFieldReport } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
+import { CHARACTERISTIC_SCHEMA } from '../types/characteristic.types';
 
 interface PresetManagerProps {
   open: boolean;
@@ -35,6 +37,32 @@ interface PresetManagerProps {
   connected: boolean;
 }
 
+const formatFieldValue = (key: ConfigFieldReport['key'], value: ConfigFieldReport['actual']): string => {
+  if (value === null) return 'unknown';
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  if (Array.isArray(value)) return value.join(', ');
+  const schema = CHARACTERISTIC_SCHEMA[key];
+  return `${value}${'unit' in schema ? schema.unit : ''}`;
+};
+
+/**
+ * One line of the apply report, e.g. "Mode 1 (1.0Hz) intensity: restored to 65% (requested 80%)"
+ */
+const describeFieldReport = (field: ConfigFieldReport): string => {
+  const label = CHARACTERISTIC_SCHEMA[field.key].label;
+  const requested = formatFieldValue(field.key, field.requested);
+  switch (field.outcome) {
+    case 'applied':
+      return `${label}: set to ${requested}`;
+    case 'restored':
+      return `${label}: restored to ${formatFieldValue(field.key, field.actual)} (requested ${requested})`;
+    case 'mismatch':
+      return `${label}: device reports ${formatFieldValue(field.key, field.actual)} (requested ${requested})`;
+    default:
+      return `${label}: could not be read back (requested ${requested})`;
+  }
+};
+
 export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, connected }) => {
   const [presets, setPresets] = useState<DevicePreset[]>([]);
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
@@ -48,6 +76,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
   const [isSaving, setIsSaving] = useState(false);
   const [loadingPresetId, setLoadingPresetId] = useState<string | null>(null);
   const [loadProgress, setLoadProgress] = useState(0);
+  const [applyReport, setApplyReport] = useState<{ presetName: string; result: ApplyConfigResult } | null>(null);
   const [deleteConfirmDialog, setDeleteConfirmDialog] = useState<{ open: boolean; preset: DevicePreset | null }>({
     open: false,
     preset: null,
@@ -57,6 +86,9 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
   useEffect(() => {
     if (open) {
       loadPresets();
+      setApplyReport(null);
+      // Keep the list current when presets change (also from another tab)
+      return presetStorageService.onChange(loadPresets);
     }
   }, [open]);
 
@@ -94,26 +126,17 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
     setIsSaving(true);
     try {
       // Read current device config
-      const config = await bleConfigService.readConfig();
+      const { config, fieldStatus } = await bleConfigService.readConfig();
 
       // Extract only the writable settings (exclude sessionTime, batteryLevel)
-      const presetConfig: PresetConfig = {
-        mode: config.mode,
-        customFrequency: config.customFrequency,
-        customDutyCycle: config.customDutyCycle,
-        // Per-mode intensity settings
-        mode0Intensity: config.mode0Intensity,
-        mode1Intensity: config.mode1Intensity,
-        mode2Intensity: config.mode2Intensity,
-        mode3Intensity: config.mode3Intensity,
-        mode4Intensity: config.mode4Intensity,
-        ledEnable: config.ledEnable,
-        ledColorMode: config.ledColorMode,
-        ledPaletteIndex: config.ledPaletteIndex,
-        ledCustomRGB: config.ledCustomRGB,
-        ledBrightness: config.ledBrightness,
-        sessionDuration: config.sessionDuration,
-      };
+      const presetConfig = presetStorageService.toPresetConfig(config);
+
+      // Don't save values we couldn't read (unsupported fields keep their defaults)
+      const failedFields = (Object.keys(presetConfig) as (keyof PresetConfig)[])
+        .filter(field => fieldStatus[field] === 'failed');
+      if (failedFields.length > 0) {
+        throw new Error(`Could not read ${failedFields.join(', ')} from device`);
+      }
 
       // Save preset
       presetStorageService.savePreset(presetName.trim(), presetConfig);
@@ -137,6 +160,7 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
 
     setLoadingPresetId(preset.id);
     setLoadProgress(0);
+    setApplyReport(null);
 
     try {
       // Validate config before applying
@@ -146,64 +170,32 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
         return;
       }
 
-      // Apply all settings to device with progress tracking
-      const config = preset.config;
-      const totalSteps = 14; // Increased for 5 mode intensities
-
-      await bleConfigService.setMotorMode(config.mode);
-      setLoadProgress((1 / totalSteps) * 100);
-
-      await bleConfigService.setCustomFrequency(config.customFrequency);
-      setLoadProgress((2 / totalSteps) * 100);
-
-      await bleConfigService.setCustomDutyCycle(config.customDutyCycle);
-      setLoadProgress((3 / totalSteps) * 100);
-
-      // Set all per-mode intensities
-      await bleConfigService.setModeIntensity(0, config.mode0Intensity);
-      setLoadProgress((4 / totalSteps) * 100);
-
-      await bleConfigService.setModeIntensity(1, config.mode1Intensity);
-      setLoadProgress((5 / totalSteps) * 100);
-
-      await bleConfigService.setModeIntensity(2, config.mode2Intensity);
-      setLoadProgress((6 / totalSteps) * 100);
-
-      await bleConfigService.setModeIntensity(3, config.mode3Intensity);
-      setLoadProgress((7 / totalSteps) * 100);
+      // Write only what differs from the device, rolling back on failure, then read back
+      // Characteristics the firmware doesn't expose are skipped; controls update from the 'config' event
+      const result = await bleConfigService.applyConfig(preset.config, ({ completed, total }) => {
+        setLoadProgress((completed / total) * 100);
+      });
 
-      await bleConfigService.setModeIntensity(4, config.mode4Intensity);
-      setLoadProgress((8 / totalSteps) * 100);
-
-      await bleConfigService.setLEDEnable(config.ledEnable);
-      setLoadProgress((9 / totalSteps) * 100);
-
-      await bleConfigService.setLEDColorMode(config.ledColorMode);
-      setLoadProgress((10 / totalSteps) * 100);
-
-      await bleConfigService.setLEDPaletteIndex(config.ledPaletteIndex);
-      setLoadProgress((11 / totalSteps) * 100);
-
-      await bleConfigService.setLEDCustomRGB(config.ledCustomRGB);
-      setLoadProgress((12 / totalSteps) * 100);
-
-      await bleConfigService.setLEDBrightness(config.ledBrightness);
-      setLoadProgress((13 / totalSteps) * 100);
-
-      await bleConfigService.setSessionDuration(config.sessionDuration);
-      setLoadProgress(100);
-
-      showSnackbar(`Preset "${preset.name}" loaded successfully`, 'success');
+      if (!result.success) {
+        // Keep the dialog open so the per-setting report stays visible
+        setApplyReport({ presetName: preset.name, result });
+        showSnackbar(`Preset "${preset.name}" was not fully applied`, 'error');
+        return;
+      }
 
-      // Force UI refresh by triggering a config read
-      // This will update all components through their cached config
-      await bleConfigService.readConfig();
+      const changed = result.fields.filter(field => field.outcome === 'applied').length;
+      showSnackbar(
+        changed > 0
+          ? `Preset "${preset.name}" loaded (${changed} setting${changed === 1 ? '' : 's'} changed)`
+          : `Preset "${preset.name}" already matches the device`,
+        'success'
+      );
 
       // Close dialog after successful load
       onClose();
     } catch (error) {
       console.error('Failed to load preset:', error);
-      showSnackbar(`Failed to load preset: ${error}`, 'error');
+      showSnackbar(`Failed to load preset: ${formatBLEError(error)}`, 'error');
     } finally {
       setLoadingPresetId(null);
       setLoadProgress(0);
@@ -333,6 +325,22 @@ export const PresetManager: React.FC<PresetManagerProps> = ({ open, onClose, con
               </Typography>
             </Box>
           )}
+          {applyReport && (
+            <Alert severity="error" onClose={() => setApplyReport(null)} sx={{ mb: 2 }}>
+              <Typography variant="body2" gutterBottom>
+                Preset "{applyReport.presetName}" was not fully applied
+                {applyReport.result.error && `: ${formatBLEError(applyReport.result.error)}`}
+                {applyReport.result.rolledBack && '. Changed settings were restored where possible.'}
+              </Typography>
+              {applyReport.result.fields
+                .filter(field => field.outcome !== 'unchanged' && field.outcome !== 'unsupported')
+                .map(field => (
+                  <Typography key={field.key} variant="caption" component="div">
+                    {describeFieldReport(field)}
+                  </Typography>
+                ))}
+            </Alert>
+          )}
           {!connected && (
             <Alert severity="warning" sx={{ mb: 2 }}>
               Connect to a device to save or load presets
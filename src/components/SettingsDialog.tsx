@@ -53,6 +53,9 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
   const [showAdvanced, setShowAdvanced] = useState(settings.ui.showAdvancedControls);
   const [autoReconnect, setAutoReconnect] = useState(settings.ble.autoReconnect);
   const [reconnectDelay, setReconnectDelay] = useState(settings.ble.reconnectDelayMs);
+  const [notificationDebounce, setNotificationDebounce] = useState(settings.ble.notificationDebounceMs);
+  const [connectTimeout, setConnectTimeout] = useState(settings.ble.connectTimeoutMs);
+  const [discoveryTimeout, setDiscoveryTimeout] = useState(settings.ble.discoveryTimeoutMs);
 
   // Update local state when settings change
   React.useEffect(() => {
@@ -62,6 +65,9 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
     setShowAdvanced(settings.ui.showAdvancedControls);
     setAutoReconnect(settings.ble.autoReconnect);
     setReconnectDelay(settings.ble.reconnectDelayMs);
+    setNotificationDebounce(settings.ble.notificationDebounceMs);
+    setConnectTimeout(settings.ble.connectTimeoutMs);
+    setDiscoveryTimeout(settings.ble.discoveryTimeoutMs);
   }, [settings]);
 
   const handleSave = async () => {
@@ -76,6 +82,9 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
         ble: {
           autoReconnect,
           reconnectDelayMs: reconnectDelay,
+          notificationDebounceMs: notificationDebounce,
+          connectTimeoutMs: connectTimeout,
+          discoveryTimeoutMs: discoveryTimeout,
         },
       });
       showSnackbar('Settings saved successfully', 'success');
@@ -297,6 +306,83 @@ export const SettingsDialog: React.FC<SettingsDialogProps> = ({ open, onClose })
               </Box>
             )}
 
+            {/* Notification Coalescing Slider */}
+            <Box sx={{ mb: 3 }}>
+              <Typography gutterBottom>
+                Notification Update Interval: {notificationDebounce}ms
+              </Typography>
+              <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+                Bursts of session time and battery updates are combined into one per interval (mode changes are always immediate)
+              </Typography>
+              <Box sx={{ px: 2, py: 3 }}>
+                <Slider
+                  value={notificationDebounce}
+                  onChange={(_, value) => setNotificationDebounce(value as number)}
+                  min={PWA_SETTINGS_BOUNDS.notificationDebounceMs.min}
+                  max={PWA_SETTINGS_BOUNDS.notificationDebounceMs.max}
+                  step={50}
+                  marks={[
+                    { value: 50, label: '50ms' },
+                    { value: 250, label: '250ms' },
+                    { value: 500, label: '500ms' },
+                  ]}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value}ms`}
+                />
+              </Box>
+            </Box>
+
+            {/* Connection Timeout Sliders */}
+            <Box sx={{ mb: 3 }}>
+              <Typography gutterBottom>
+                Connect Timeout: {connectTimeout / 1000}s
+              </Typography>
+              <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+                How long to wait for the Bluetooth link before giving up (Android can hang here)
+              </Typography>
+              <Box sx={{ px: 2, py: 3 }}>
+                <Slider
+                  value={connectTimeout}
+                  onChange={(_, value) => setConnectTimeout(value as number)}
+                  min={PWA_SETTINGS_BOUNDS.connectTimeoutMs.min}
+                  max={PWA_SETTINGS_BOUNDS.connectTimeoutMs.max}
+                  step={5000}
+                  marks={[
+                    { value: 5000, label: '5s' },
+                    { value: 30000, label: '30s' },
+                    { value: 60000, label: '60s' },
+                  ]}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value / 1000}s`}
+                />
+              </Box>
+            </Box>
+
+            <Box sx={{ mb: 3 }}>
+              <Typography gutterBottom>
+                Setup Step Timeout: {discoveryTimeout / 1000}s
+              </Typography>
+              <Typography variant="caption" color="text.secondary" gutterBottom display="block">
+                Limit for each step after the link is up: discovering features, enabling updates, reading the configuration
+              </Typography>
+              <Box sx={{ px: 2, py: 3 }}>
+                <Slider
+                  value={discoveryTimeout}
+                  onChange={(_, value) => setDiscoveryTimeout(value as number)}
+                  min={PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.min}
+                  max={PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.max}
+                  step={5000}
+                  marks={[
+                    { value: 5000, label: '5s' },
+                    { value: 30000, label: '30s' },
+                    { value: 60000, label: '60s' },
+                  ]}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value / 1000}s`}
+                />
+              </Box>
+            </Box>
+
             <Alert severity="info" sx={{ mt: 3 }}>
               Settings are saved to your browser and persist across sessions.
             </Alert>
@@ -16,9 +16,17 @@ import Battery20Icon from '@mui/icons-material/Battery20';
 import TimerIcon from '@mui/icons-material/Timer';
 import InfoOutlinedIcon from '@mui/icons-material/InfoOutlined';
 import DevicesOtherIcon from '@mui/icons-material/DevicesOther';
+import SyncProblemIcon from '@mui/icons-material/SyncProblem';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
 import { bleConfigService } from '../services/ble-config.service';
+import { formatBLEError } from '../services/ble-errors';
 import { useSessionTimer } from '../hooks/useSessionTimer';
 import { useBatteryLevel } from '../hooks/useBatteryLevel';
+import { useCharacteristicSupport } from '../hooks/useCharacteristicSupport';
+import { useFirmwareCapabilities } from '../hooks/useFirmwareCapabilities';
+import { formatFirmwareVersion, parseFirmwareVersion } from '../services/firmware-capabilities';
+import { CHARACTERISTIC_SCHEMA } from '../types/characteristic.types';
+import { FirmwareMismatch } from '../types/firmware.types';
 import { usePWASettings } from '../contexts/PWASettingsContext';
 import { CollapsibleCard } from './CollapsibleCard';
 
@@ -28,14 +36,50 @@ interface StatusMonitorProps {
   onToggleExpanded: () => void;
 }
 
+// Slider limits from the characteristic schema
+const SESSION_DURATION_RANGE = CHARACTERISTIC_SCHEMA.SESSION_DURATION.range;
+
+// Show semver + build date when the version string parses, otherwise the raw string
+const displayFirmwareVersion = (raw: string): string => {
+  const version = parseFirmwareVersion(raw);
+  return version ? formatFirmwareVersion(version) : raw || 'Not available';
+};
+
+const describeFirmwareMismatch = (mismatch: FirmwareMismatch): string => {
+  const local = displayFirmwareVersion(mismatch.local);
+  const peer = displayFirmwareVersion(mismatch.peer);
+  switch (mismatch.behind) {
+    case 'local':
+      return `This unit is behind: it runs ${local}, the other unit runs ${peer}. Update this unit.`;
+    case 'peer':
+      return `The other unit is behind: it runs ${peer}, this unit runs ${local}. Update the other unit.`;
+    default:
+      return `The units run different firmware: this unit ${local}, the other unit ${peer}.`;
+  }
+};
+
 export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expanded, onToggleExpanded }) => {
   const { settings } = usePWASettings();
   const compactMode = settings.ui.compactMode;
+  const isSupported = useCharacteristicSupport(connected);
+  const capabilities = useFirmwareCapabilities(connected);
 
   const [sessionDuration, setSessionDuration] = useState(1200); // 20 min default
   const [snackbar, setSnackbar] = useState({ open: false, message: '' });
   const [localFirmwareVersion, setLocalFirmwareVersion] = useState('');
   const [peerFirmwareVersion, setPeerFirmwareVersion] = useState('');
+  const [deviceInformation, setDeviceInformation] = useState(bleConfigService.getDeviceInformation());
+  const [linkStale, setLinkStale] = useState(bleConfigService.isLinkStale());
+  const [firmwareMismatch, setFirmwareMismatch] = useState(bleConfigService.getFirmwareMismatch());
+
+  // Liveness probe: the device has been quiet for a while and the link is being checked
+  useEffect(() => bleConfigService.on('linkStale', setLinkStale), []);
+
+  // Local vs peer firmware, rechecked when the peer joins or leaves
+  useEffect(() => bleConfigService.on('firmwareMismatch', (mismatch) => {
+    setFirmwareMismatch(mismatch);
+    if (mismatch) setPeerFirmwareVersion(mismatch.peer);
+  }), []);
 
   // Initialize with default values
   const [initialSessionTime, setInitialSessionTime] = useState(0);
@@ -98,7 +142,7 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
       if (!config) {
         // Fallback: read from device if cache is empty
         console.log('Cache miss, reading status config from device...');
-        config = await bleConfigService.readConfig();
+        config = (await bleConfigService.readConfig()).config;
       } else {
         console.log('Using cached status config');
       }
@@ -109,6 +153,7 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
       setInitialClientBatteryLevel(config.clientBatteryLevel);
       setLocalFirmwareVersion(config.localFirmwareVersion || '');
       setPeerFirmwareVersion(config.peerFirmwareVersion || '');
+      setDeviceInformation(bleConfigService.getDeviceInformation());
 
       // Set initial values in hooks
       sessionTimer.setTime(config.sessionTime);
@@ -141,6 +186,7 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
         await bleConfigService.setSessionDuration(duration);
       } catch (error) {
         console.error('Failed to set session duration:', error);
+        setSnackbar({ open: true, message: `Failed to set session duration. ${formatBLEError(error)}` });
       }
     }
   };
@@ -196,6 +242,24 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
       {!connected && (
         <Chip label="Disconnected" size="small" color="warning" variant="outlined" />
       )}
+      {connected && firmwareMismatch && (
+        <Chip
+          icon={<WarningAmberIcon sx={{ fontSize: 16 }} />}
+          label="Firmware mismatch"
+          size="small"
+          color="warning"
+          variant="outlined"
+        />
+      )}
+      {connected && linkStale && (
+        <Chip
+          icon={<SyncProblemIcon sx={{ fontSize: 16 }} />}
+          label="Link may be stale"
+          size="small"
+          color="warning"
+          variant="outlined"
+        />
+      )}
     </Box>
   );
 
@@ -208,6 +272,20 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
       compactMode={compactMode}
     >
       <Grid container spacing={compactMode ? 2 : 3}>
+          {connected && linkStale && (
+            <Grid item xs={12}>
+              <Alert severity="warning" icon={<SyncProblemIcon />}>
+                No updates from the device for a while. Checking the connection; values shown may be out of date.
+              </Alert>
+            </Grid>
+          )}
+          {connected && firmwareMismatch && (
+            <Grid item xs={12}>
+              <Alert severity="warning">
+                {describeFirmwareMismatch(firmwareMismatch)} Mismatched firmware can cause bilateral timing problems.
+              </Alert>
+            </Grid>
+          )}
           <Grid item xs={12}>
             <Typography gutterBottom>
               Session Duration: {formatTime(sessionDuration)} ({sessionDuration / 60} minutes)
@@ -217,8 +295,8 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
                 value={sessionDuration}
                 onChange={handleDurationChange}
                 onChangeCommitted={handleDurationCommitted}
-                min={1200}
-                max={5400}
+                min={SESSION_DURATION_RANGE.min}
+                max={SESSION_DURATION_RANGE.max}
                 step={60}
                 marks={[
                   { value: 1200, label: '20 min' },
@@ -226,7 +304,7 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
                   { value: 3600, label: '60 min' },
                   { value: 5400, label: '90 min' },
                 ]}
-                disabled={!connected}
+                disabled={!connected || !isSupported('SESSION_DURATION')}
                 valueLabelDisplay="auto"
                 valueLabelFormat={(value) => `${value / 60} min`}
                 sx={{ touchAction: 'none' }}
@@ -316,10 +394,24 @@ export const StatusMonitor: React.FC<StatusMonitorProps> = ({ connected, expande
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
                 <InfoOutlinedIcon color="action" fontSize="small" />
                 <Typography variant="body2" color="text.secondary">
-                  Firmware: {localFirmwareVersion || 'Not available'}
-                  {clientBattery.batteryLevel > 0 && ` / Client: ${peerFirmwareVersion || 'Not available'}`}
+                  {capabilities.firmwareVersion ? (
+                    <>
+                      Firmware: {displayFirmwareVersion(localFirmwareVersion)}
+                      {clientBattery.batteryLevel > 0 && ` / Client: ${displayFirmwareVersion(peerFirmwareVersion)}`}
+                    </>
+                  ) : (
+                    'Firmware: older than v1.0.0 (version not reported)'
+                  )}
                 </Typography>
               </Box>
+              {(deviceInformation?.serialNumber || deviceInformation?.hardwareRevision) && (
+                <Typography variant="caption" color="text.secondary" sx={{ display: 'block', ml: 3.5 }}>
+                  {[
+                    deviceInformation.serialNumber && `Serial: ${deviceInformation.serialNumber}`,
+                    deviceInformation.hardwareRevision && `Hardware: ${deviceInformation.hardwareRevision}`,
+                  ].filter(Boolean).join(' • ')}
+                </Typography>
+              )}
             </Grid>
           )}
 
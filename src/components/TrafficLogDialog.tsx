@@ -0,0 +1,183 @@
+/**
+ * BLE Traffic Log Dialog
+ * Shows the reads, writes, notifications and link events recorded by BLEConfigService
+ * Advanced mode only; export is meant for attaching to bug reports
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  Typography,
+  Box,
+} from '@mui/material';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import { bleConfigService } from '../services/ble-config.service';
+import { formatBytes } from '../services/traffic-recorder';
+import {
+  BULK_CONFIG_CHARACTERISTICS,
+  BulkConfigKey,
+  CHARACTERISTIC_KEYS,
+  CharacteristicKey,
+} from '../types/characteristic.types';
+import { TrafficLogEntry } from '../types/traffic.types';
+
+interface TrafficLogDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Rendering thousands of rows makes the dialog sluggish; exports always include everything
+const MAX_VISIBLE_ROWS = 300;
+
+// 'all', 'link' (connect/disconnect) or an entry key (characteristic key or explorer UUID)
+type TrafficFilter = string;
+
+// Always offered; keys of other services and explorer UUIDs are added once they appear in the log
+const FILTER_KEYS: readonly (CharacteristicKey | BulkConfigKey)[] = [
+  ...CHARACTERISTIC_KEYS,
+  ...(Object.keys(BULK_CONFIG_CHARACTERISTICS) as BulkConfigKey[]),
+];
+
+const matchesFilter = (entry: TrafficLogEntry, filter: TrafficFilter): boolean => {
+  if (filter === 'all') return true;
+  if (filter === 'link') return entry.key === null;
+  return entry.key === filter;
+};
+
+const formatTime = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.toLocaleTimeString('en-US', { hour12: false })}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+};
+
+const formatValue = (value: unknown): string =>
+  value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+export const TrafficLogDialog: React.FC<TrafficLogDialogProps> = ({ open, onClose }) => {
+  const recorder = bleConfigService.getTrafficRecorder();
+  const [entries, setEntries] = useState<readonly TrafficLogEntry[]>([]);
+  const [filter, setFilter] = useState<TrafficFilter>('all');
+
+  useEffect(() => {
+    if (!open) return;
+
+    setEntries([...recorder.getEntries()]);
+    return recorder.onChange(() => setEntries([...recorder.getEntries()]));
+  }, [open, recorder]);
+
+  const filtered = entries.filter(entry => matchesFilter(entry, filter));
+  const filterKeys = [...new Set<string>([
+    ...FILTER_KEYS,
+    ...entries.flatMap(entry => (entry.key === null ? [] : [entry.key])),
+  ])];
+  const visible = filtered.slice(-MAX_VISIBLE_ROWS).reverse();
+
+  const handleExport = (format: 'json' | 'csv') => {
+    const content = format === 'json' ? recorder.toJSON(filtered) : recorder.toCSV(filtered);
+    const blob = new Blob([content], { type: format === 'json' ? 'application/json' : 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `mlehaptics-ble-log-${new Date().toISOString().replace(/[:.]/g, '-')}.${format}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>BLE Traffic Log</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, pt: 1, mb: 2 }}>
+          <FormControl size="small" sx={{ minWidth: 240 }}>
+            <InputLabel>Characteristic</InputLabel>
+            <Select
+              value={filter}
+              label="Characteristic"
+              onChange={(e) => setFilter(e.target.value as TrafficFilter)}
+            >
+              <MenuItem value="all">All traffic</MenuItem>
+              <MenuItem value="link">Connect / disconnect</MenuItem>
+              {filterKeys.map(key => (
+                <MenuItem key={key} value={key}>
+                  {key}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Typography variant="caption" color="text.secondary">
+            {filtered.length} of {entries.length} entries
+            {filtered.length > MAX_VISIBLE_ROWS && ` (newest ${MAX_VISIBLE_ROWS} shown)`}
+          </Typography>
+        </Box>
+
+        {visible.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No traffic recorded yet. Connect to a device to start logging.
+          </Typography>
+        ) : (
+          <TableContainer sx={{ maxHeight: '60vh' }}>
+            <Table size="small" stickyHeader>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Time</TableCell>
+                  <TableCell>Type</TableCell>
+                  <TableCell>Characteristic</TableCell>
+                  <TableCell>Bytes</TableCell>
+                  <TableCell>Value</TableCell>
+                  <TableCell align="right">Duration</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {visible.map(entry => (
+                  <TableRow key={entry.id} sx={entry.error ? { bgcolor: 'error.dark' } : undefined}>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>{formatTime(entry.timestamp)}</TableCell>
+                    <TableCell>{entry.type}</TableCell>
+                    <TableCell>{entry.key ?? '—'}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace' }}>{formatBytes(entry.bytes)}</TableCell>
+                    <TableCell>
+                      {entry.error ? `${formatValue(entry.value)} ✗ ${entry.error}` : formatValue(entry.value)}
+                    </TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      {entry.durationMs === null ? '' : `${entry.durationMs.toFixed(0)} ms`}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button startIcon={<DeleteSweepIcon />} onClick={() => recorder.clear()} disabled={entries.length === 0}>
+          Clear
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        <Button startIcon={<FileDownloadIcon />} onClick={() => handleExport('json')} disabled={filtered.length === 0}>
+          Export JSON
+        </Button>
+        <Button startIcon={<FileDownloadIcon />} onClick={() => handleExport('csv')} disabled={filtered.length === 0}>
+          Export CSV
+        </Button>
+        <Button onClick={onClose} variant="contained">
+          Close
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from 'react';
+import { bleConfigService } from '../services/ble-config.service';
+import { CharacteristicKey } from '../types/characteristic.types';
+
+/**
+ * Custom hook for checking which characteristics the connected firmware exposes.
+ *
+ * Older firmware may lack some characteristics (e.g. per-mode intensities).
+ * Components use this to disable only the controls backed by a missing
+ * characteristic instead of failing on write.
+ *
+ * @param connected - Whether a device is connected (support is re-checked on each connect)
+ * @returns Function returning true if the characteristic is supported
+ */
+export function useCharacteristicSupport(connected: boolean): (key: CharacteristicKey) => boolean {
+  const [unsupported, setUnsupported] = useState<ReadonlySet<CharacteristicKey>>(new Set());
+
+  useEffect(() => {
+    setUnsupported(connected ? new Set(bleConfigService.getUnsupportedCharacteristics()) : new Set());
+  }, [connected]);
+
+  return useCallback((key: CharacteristicKey) => !unsupported.has(key), [unsupported]);
+}
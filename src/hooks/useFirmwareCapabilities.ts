@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { bleConfigService } from '../services/ble-config.service';
+import { DEFAULT_FIRMWARE_CAPABILITIES } from '../services/firmware-capabilities';
+import { FirmwareCapabilities } from '../types/firmware.types';
+
+/**
+ * Custom hook for the features supported by the connected firmware version.
+ *
+ * Capabilities are resolved by BLEConfigService while connecting (from the
+ * firmware version string and the characteristics it exposes). Components use
+ * this to hide or adapt features instead of failing on a write.
+ *
+ * @param connected - Whether a device is connected (capabilities are re-read on each connect)
+ * @returns Capabilities of the connected firmware (all enabled when not connected)
+ */
+export function useFirmwareCapabilities(connected: boolean): FirmwareCapabilities {
+  const [capabilities, setCapabilities] = useState<FirmwareCapabilities>(DEFAULT_FIRMWARE_CAPABILITIES);
+
+  useEffect(() => {
+    setCapabilities(connected ? bleConfigService.getFirmwareCapabilities() : DEFAULT_FIRMWARE_CAPABILITIES);
+  }, [connected]);
+
+  return capabilities;
+}
@@ -0,0 +1,197 @@
+/**
+ * Bilateral Control Service client for MLEHaptics
+ * Implements the PWA side of AD030: BLE Bilateral Control Service Architecture
+ *
+ * Optional: discovered by BLEConfigService while connecting. Firmware without
+ * the service (or without individual characteristics) simply leaves the
+ * matching controls unavailable.
+ */
+
+import { GattOperationQueue } from './gatt-operation-queue';
+import { BLEConnectionError, BLEOperationError, toBLEError } from './ble-errors';
+import {
+  BILATERAL_CHARACTERISTIC_SPECS,
+  BILATERAL_SERVICE_LAYOUTS,
+  BilateralCharacteristicKey,
+  BilateralCommand,
+  DeviceRole,
+  StimulationPattern,
+} from '../types/bilateral.types';
+import { TrafficOperationRecorder } from '../types/traffic.types';
+import { ConfigTransport, GattServiceChannel } from '../types/transport.types';
+
+const BILATERAL_KEYS = Object.keys(BILATERAL_CHARACTERISTIC_SPECS) as BilateralCharacteristicKey[];
+
+export class BilateralControlService {
+  private channel: GattServiceChannel<BilateralCharacteristicKey> | null = null;
+  private operationQueue: GattOperationQueue | null = null;
+  private recordOperation: TrafficOperationRecorder | null = null;
+  private availableCharacteristics: Set<BilateralCharacteristicKey> = new Set();
+
+  /**
+   * Look for the Bilateral Control Service on a connected transport
+   * GATT operations share the Configuration Service queue (one operation at a time per device)
+   * and traffic log
+   * @param signal Connect attempt; once aborted, discovery stops without keeping what it found
+   * @returns true if the service was found with at least one characteristic
+   */
+  async discover(
+    transport: ConfigTransport,
+    operationQueue: GattOperationQueue,
+    recordOperation: TrafficOperationRecorder,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    this.reset();
+    if (!transport.openService) return false;
+
+    for (const layout of BILATERAL_SERVICE_LAYOUTS) {
+      const channel = await operationQueue.enqueue({
+        label: `open service ${layout.serviceUuid}`,
+        priority: 'background',
+        run: () => transport.openService!(layout.serviceUuid, layout.characteristics),
+      });
+      signal?.throwIfAborted();
+      if (!channel) continue;
+
+      const found = await operationQueue.enqueue({
+        label: 'discover bilateral characteristics',
+        priority: 'background',
+        run: () => channel.discover(BILATERAL_KEYS),
+      });
+      signal?.throwIfAborted();
+      if (found.length === 0) continue;
+
+      this.channel = channel;
+      this.operationQueue = operationQueue;
+      this.recordOperation = recordOperation;
+      this.availableCharacteristics = new Set(found);
+      console.log(`Bilateral Control Service found (${layout.serviceUuid}):`, found);
+      return true;
+    }
+
+    console.log('Bilateral Control Service not available on this device');
+    return false;
+  }
+
+  /**
+   * Forget the service (disconnect or link loss; handles are stale afterwards)
+   */
+  reset(): void {
+    this.channel = null;
+    this.operationQueue = null;
+    this.recordOperation = null;
+    this.availableCharacteristics.clear();
+  }
+
+  isAvailable(): boolean {
+    return this.channel !== null;
+  }
+
+  isCharacteristicSupported(key: BilateralCharacteristicKey): boolean {
+    return this.availableCharacteristics.has(key);
+  }
+
+  async sendCommand(command: BilateralCommand): Promise<void> {
+    await this.writeValue('COMMAND', command);
+  }
+
+  async startStimulation(): Promise<void> {
+    await this.sendCommand(BilateralCommand.START);
+  }
+
+  async stopStimulation(): Promise<void> {
+    await this.sendCommand(BilateralCommand.STOP);
+  }
+
+  async readStimulationPattern(): Promise<StimulationPattern> {
+    return await this.readValue('STIMULATION_PATTERN');
+  }
+
+  async setStimulationPattern(pattern: StimulationPattern): Promise<void> {
+    await this.writeValue('STIMULATION_PATTERN', pattern);
+  }
+
+  async readDeviceRole(): Promise<DeviceRole> {
+    return await this.readValue('DEVICE_ROLE');
+  }
+
+  /**
+   * Read the bilateral packet sequence number (for packet loss detection)
+   */
+  async readSequenceNumber(): Promise<number> {
+    return await this.readValue('SEQUENCE_NUMBER');
+  }
+
+  /**
+   * Stop both devices immediately (AD030 Emergency Shutdown)
+   * Skips the operation queue so it doesn't wait behind an operation still running
+   */
+  async emergencyShutdown(): Promise<void> {
+    const channel = this.getChannel('EMERGENCY_SHUTDOWN');
+    const bytes = new Uint8Array([1]);
+    await this.operationQueue!.runNow({
+      label: 'write EMERGENCY_SHUTDOWN',
+      run: () => this.recordOperation!(
+        'write',
+        'EMERGENCY_SHUTDOWN',
+        () => channel.write('EMERGENCY_SHUTDOWN', bytes),
+        bytes
+      ),
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+  }
+
+  private async readValue(key: BilateralCharacteristicKey): Promise<number> {
+    const channel = this.getChannel(key);
+    const view = await this.operationQueue!.enqueue({
+      label: `read ${key}`,
+      priority: 'background',
+      run: () => this.recordOperation!('read', key, () => channel.read(key)),
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+    return BILATERAL_CHARACTERISTIC_SPECS[key].wireType === 'uint16'
+      ? view.getUint16(0, true)
+      : view.getUint8(0);
+  }
+
+  private async writeValue(key: BilateralCharacteristicKey, value: number): Promise<void> {
+    const channel = this.getChannel(key);
+    const spec = BILATERAL_CHARACTERISTIC_SPECS[key];
+    if (spec.access === 'read') {
+      throw new BLEOperationError('invalid-value', { message: `Characteristic ${key} is read-only` });
+    }
+    if (value < spec.range.min || value > spec.range.max) {
+      throw new BLEOperationError('invalid-value', {
+        message: `${key} must be between ${spec.range.min} and ${spec.range.max}`,
+      });
+    }
+
+    const bytes = new Uint8Array([value]);
+    await this.operationQueue!.enqueue({
+      label: `write ${key}`,
+      priority: 'user',
+      run: () => this.recordOperation!('write', key, () => channel.write(key, bytes), bytes),
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+  }
+
+  /**
+   * @throws BLEConnectionError('disconnected') before discovery or after a disconnect,
+   *   BLEOperationError('characteristic-not-found') when the firmware lacks the characteristic
+   */
+  private getChannel(key: BilateralCharacteristicKey): GattServiceChannel<BilateralCharacteristicKey> {
+    if (!this.channel) {
+      throw new BLEConnectionError('disconnected', { cause: 'Bilateral Control Service not available' });
+    }
+    if (!this.availableCharacteristics.has(key)) {
+      throw new BLEOperationError('characteristic-not-found', { cause: `Characteristic ${key} not found` });
+    }
+    return this.channel;
+  }
+}
+
+// Singleton instance
+export const bilateralControlService = new BilateralControlService();
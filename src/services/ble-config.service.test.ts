@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BLEConfigService, DEFAULT_DEVICE_CONFIG } from './ble-config.service';
+import { BLEOperationError } from './ble-errors';
+import { DemoTransport } from './transports/demo.transport';
+import { CONFIG_SERVICE_UUID, MotorMode } from '../types/characteristic.types';
+import type { ConnectionPhase } from '../types/ble-events.types';
+
+/**
+ * Demo device whose link can be lost on demand, like walking out of range
+ */
+class LinkLossDemoTransport extends DemoTransport {
+  private linkLossListeners: Set<() => void> = new Set();
+
+  onDisconnect(callback: () => void): () => void {
+    this.linkLossListeners.add(callback);
+    const unsubscribe = super.onDisconnect(callback);
+    return () => {
+      this.linkLossListeners.delete(callback);
+      unsubscribe();
+    };
+  }
+
+  loseLink(): void {
+    this.dropLink();
+    this.linkLossListeners.forEach(callback => callback());
+  }
+}
+
+/**
+ * Advance fake time (demo latency, reconnect backoff) until the promise settles
+ */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let settled = false;
+  promise.then(() => (settled = true), () => (settled = true));
+  for (let elapsed = 0; !settled && elapsed < 60000; elapsed += 50) {
+    await vi.advanceTimersByTimeAsync(50);
+  }
+  return promise;
+}
+
+describe('BLEConfigService over DemoTransport', () => {
+  let service: BLEConfigService;
+  let transport: LinkLossDemoTransport;
+  let phases: ConnectionPhase[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    service = new BLEConfigService();
+    transport = new LinkLossDemoTransport();
+    phases = [];
+    service.on('connectionPhase', phase => phases.push(phase));
+    await settle(service.connectTransport(transport));
+  });
+
+  afterEach(async () => {
+    await settle(service.disconnect());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('steps through the connect phases and reads the device config', () => {
+    expect(phases).toEqual(['connecting', 'discovering', 'subscribing', 'reading', 'ready']);
+    expect(service.isConnected()).toBe(true);
+    expect(service.getDeviceName()).toBe('MLEHaptics Demo');
+
+    const config = service.getCachedConfig();
+    expect(config).toMatchObject({
+      mode: MotorMode.MODE_1HZ_25,
+      customFrequency: 100,
+      ledCustomRGB: [255, 0, 0],
+      sessionDuration: 1200,
+      localFirmwareVersion: 'v1.0.0 (Dec 15 2025 10:30:00)',
+    });
+    expect(service.getFirmwareVersion()).toMatchObject({ major: 1, minor: 0, patch: 0 });
+    expect(service.getDeviceInformation()?.hardwareRevision).toBe('Simulated');
+  });
+
+  it('rejects a second connect while connected', async () => {
+    await expect(service.connectTransport(new DemoTransport())).rejects.toThrow();
+    expect(service.getConnectionPhase()).toBe('ready');
+  });
+
+  it('writes a setting to the device and keeps the cache in step', async () => {
+    await settle(service.setModeIntensity(MotorMode.MODE_05HZ_25, 72));
+
+    expect(service.getCachedConfig()?.mode0Intensity).toBe(72);
+    await expect(settle(service.readCharacteristic('MODE_0_INTENSITY'))).resolves.toBe(72);
+  });
+
+  it('rejects out-of-range and read-only writes before they reach the device', async () => {
+    const write = vi.spyOn(transport, 'write');
+
+    await expect(service.setModeIntensity(MotorMode.MODE_05HZ_25, 95)).rejects.toBeInstanceOf(BLEOperationError);
+    await expect(service.writeCharacteristic('BATTERY_LEVEL', 50)).rejects.toMatchObject({ code: 'invalid-value' });
+    expect(write).not.toHaveBeenCalled();
+  });
+
+  it('writes only the changed fields of a preset', async () => {
+    const progress = vi.fn();
+    const result = await settle(service.writeConfig({ mode: MotorMode.MODE_1HZ_25, mode1Intensity: 70, ledBrightness: 25 }, progress));
+
+    expect(result.unchanged).toEqual(['MODE']);
+    expect(result.written.sort()).toEqual(['LED_BRIGHTNESS', 'MODE_1_INTENSITY']);
+    expect(progress).toHaveBeenCalledTimes(2);
+    await expect(settle(service.readCharacteristic('MODE_1_INTENSITY'))).resolves.toBe(70);
+    await expect(settle(service.readCharacteristic('LED_BRIGHTNESS'))).resolves.toBe(25);
+  });
+
+  it('sends AD030 Emergency Shutdown when the device has it', async () => {
+    await expect(settle(service.emergencyStop())).resolves.toEqual({ method: 'shutdown', failed: [], restorable: false });
+  });
+
+  it('reconnects after an unexpected link loss', async () => {
+    transport.loseLink();
+    expect(service.getConnectionPhase()).toBe('reconnecting');
+
+    await settle(new Promise<void>(resolve => {
+      const unsubscribe = service.on('connectionPhase', phase => {
+        if (phase === 'ready') {
+          unsubscribe();
+          resolve();
+        }
+      });
+    }));
+    expect(phases.slice(-2)).toEqual(['reconnecting', 'ready']);
+    expect(service.getCachedConfig()?.mode).toBe(MotorMode.MODE_1HZ_25);
+  });
+
+  it('clears the connection state on disconnect', async () => {
+    const onDisconnect = vi.fn();
+    service.on('disconnect', onDisconnect);
+
+    await settle(service.disconnect());
+    expect(service.getConnectionPhase()).toBe('idle');
+    expect(service.getCachedConfig()).toBeNull();
+    expect(onDisconnect).toHaveBeenCalledTimes(1);
+    expect(transport.isConnected()).toBe(false);
+  });
+});
+
+describe('BLEConfigService with a preset field that could not be read', () => {
+  let service: BLEConfigService;
+  let transport: DemoTransport;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // No BULK_CONFIG, and MODE_0_INTENSITY reads fail, so its cached value is the default
+    transport = new DemoTransport();
+    const openService = transport.openService.bind(transport);
+    vi.spyOn(transport, 'openService').mockImplementation(
+      async (serviceUuid, characteristicUuids) =>
+        serviceUuid === CONFIG_SERVICE_UUID ? null : openService(serviceUuid, characteristicUuids)
+    );
+    const read = transport.read.bind(transport);
+    vi.spyOn(transport, 'read').mockImplementation(async key => {
+      if (key === 'MODE_0_INTENSITY') throw new DOMException('GATT operation failed.', 'NetworkError');
+      return read(key);
+    });
+
+    service = new BLEConfigService();
+    await settle(service.connectTransport(transport));
+  });
+
+  afterEach(async () => {
+    await settle(service.disconnect());
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('writes a field that only matches the default it was left at', async () => {
+    expect(service.getCachedConfig()?.mode0Intensity).toBe(DEFAULT_DEVICE_CONFIG.mode0Intensity);
+    const write = vi.spyOn(transport, 'write');
+
+    const result = await settle(service.writeConfig({
+      mode0Intensity: DEFAULT_DEVICE_CONFIG.mode0Intensity,
+      mode1Intensity: service.getCachedConfig()?.mode1Intensity,
+    }));
+
+    expect(result.written).toEqual(['MODE_0_INTENSITY']);
+    expect(result.unchanged).toEqual(['MODE_1_INTENSITY']);
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls[0][0]).toBe('MODE_0_INTENSITY');
+
+    // Once written the value is known, so loading it again is a no-op
+    const again = await settle(service.writeConfig({ mode0Intensity: DEFAULT_DEVICE_CONFIG.mode0Intensity }));
+    expect(again.unchanged).toEqual(['MODE_0_INTENSITY']);
+  });
+});
@@ -3,52 +3,98 @@
  * Implements AD032: BLE Configuration Service Architecture
  *
  * Updated November 14, 2025: New project-specific UUIDs to avoid Nordic UART Service collision
- * Base UUID: 4BCAE9BE-9829-4F0A-9E88-267DE5E7XXYY
- *   XX = Service type (02 for Configuration Service)
- *   YY = Characteristic ID (01-0C for 12 characteristics)
+ * Characteristic UUIDs, wire formats and ranges live in CHARACTERISTIC_SCHEMA
  */
 
-// Service UUID (XX byte = 02 for Configuration Service, YY = 00)
-export const CONFIG_SERVICE_UUID = '4bcae9be-9829-4f0a-9e88-267de5e70200';
-
-// Characteristic UUIDs (YY byte increments: 01, 02, 03... 0C, then 0E-11 for mode intensities)
-export const CHARACTERISTICS = {
-  // MOTOR CONTROL GROUP
-  MODE: '4bcae9be-9829-4f0a-9e88-267de5e70201',
-  CUSTOM_FREQUENCY: '4bcae9be-9829-4f0a-9e88-267de5e70202',
-  CUSTOM_DUTY_CYCLE: '4bcae9be-9829-4f0a-9e88-267de5e70203',
-  MODE_4_INTENSITY: '4bcae9be-9829-4f0a-9e88-267de5e70204', // Custom mode: 30-80%
-  MODE_0_INTENSITY: '4bcae9be-9829-4f0a-9e88-267de5e7020e', // 0.5Hz preset: 50-80%
-  MODE_1_INTENSITY: '4bcae9be-9829-4f0a-9e88-267de5e7020f', // 1.0Hz preset: 50-80%
-  MODE_2_INTENSITY: '4bcae9be-9829-4f0a-9e88-267de5e70210', // 1.5Hz preset: 70-90%
-  MODE_3_INTENSITY: '4bcae9be-9829-4f0a-9e88-267de5e70211', // 2.0Hz preset: 70-90%
-
-  // LED CONTROL GROUP
-  LED_ENABLE: '4bcae9be-9829-4f0a-9e88-267de5e70205',
-  LED_COLOR_MODE: '4bcae9be-9829-4f0a-9e88-267de5e70206',
-  LED_PALETTE_INDEX: '4bcae9be-9829-4f0a-9e88-267de5e70207',
-  LED_CUSTOM_RGB: '4bcae9be-9829-4f0a-9e88-267de5e70208',
-  LED_BRIGHTNESS: '4bcae9be-9829-4f0a-9e88-267de5e70209',
-
-  // STATUS/MONITORING GROUP
-  SESSION_DURATION: '4bcae9be-9829-4f0a-9e88-267de5e7020a',
-  SESSION_TIME: '4bcae9be-9829-4f0a-9e88-267de5e7020b',
-  BATTERY_LEVEL: '4bcae9be-9829-4f0a-9e88-267de5e7020c',
-  CLIENT_BATTERY: '4bcae9be-9829-4f0a-9e88-267de5e7020d',
-
-  // FIRMWARE VERSION GROUP
-  LOCAL_FIRMWARE_VERSION: '4bcae9be-9829-4f0a-9e88-267de5e70212',
-  PEER_FIRMWARE_VERSION: '4bcae9be-9829-4f0a-9e88-267de5e70213',
-} as const;
-
-// Motor modes (AD032 - Updated specification)
-export enum MotorMode {
-  MODE_05HZ_25 = 0,
-  MODE_1HZ_25 = 1,
-  MODE_15HZ_25 = 2,
-  MODE_2HZ_25 = 3,
-  MODE_CUSTOM = 4,
-}
+import { pwaSettingsService } from './pwa-settings.service';
+import { WebBluetoothTransport } from './transports/web-bluetooth.transport';
+import { GattOperationPriority, GattOperationQueue } from './gatt-operation-queue';
+import { bilateralControlService } from './bilateral-control.service';
+import { TrafficRecorder, toByteArray } from './traffic-recorder';
+import { knownDevicesService } from './known-devices.service';
+import { deviceRegistryService } from './device-registry.service';
+import { TypedEventEmitter } from './typed-event-emitter';
+import { tabSyncService } from './tab-sync.service';
+import { CharacteristicSource, StandardServicesClient } from './standard-services';
+import {
+  CONNECTING_PHASES,
+  TIMED_CONNECT_PHASES,
+  TimedConnectPhase,
+  canTransition,
+  connectionStatusForPhase,
+} from './connection-phase';
+import {
+  BLEAvailabilityError,
+  BLEConnectionError,
+  BLEDeviceNotFoundError,
+  BLEError,
+  BLEOperationError,
+  toBLEError,
+} from './ble-errors';
+import {
+  decodeCharacteristicValue,
+  encodeCharacteristicValue,
+  validateCharacteristicValue,
+  withCharacteristicValue,
+} from './characteristic-codec';
+import { decodeBulkConfig, encodeBulkConfig } from './bulk-config-codec';
+import {
+  DEFAULT_FIRMWARE_CAPABILITIES,
+  findFirmwareMismatch,
+  parseFirmwareVersion,
+  resolveFirmwareCapabilities,
+} from './firmware-capabilities';
+import { DEFAULT_PWA_SETTINGS, PWASettings } from '../types/pwa-settings.types';
+import { FirmwareCapabilities, FirmwareMismatch, FirmwareVersion } from '../types/firmware.types';
+import {
+  BULK_CONFIG_CHARACTERISTICS,
+  BulkConfigKey,
+  CHARACTERISTIC_KEYS,
+  CHARACTERISTIC_SCHEMA,
+  CONFIG_SERVICE_UUID,
+  CharacteristicKey,
+  CharacteristicValue,
+  DeviceConfig,
+  MotorMode,
+  PRESET_CHARACTERISTIC_KEYS,
+  PresetCharacteristicKey,
+} from '../types/characteristic.types';
+import type { PresetConfig } from '../types/preset.types';
+import { TrafficOperationRecorder } from '../types/traffic.types';
+import {
+  ConfigTransport,
+  GattServiceChannel,
+  RawGattCharacteristic,
+  RawGattService,
+} from '../types/transport.types';
+import {
+  BLEServiceError,
+  BLEServiceEvents,
+  CharacteristicEvents,
+  ConnectionPhase,
+  ConnectionStatus,
+} from '../types/ble-events.types';
+import {
+  BILATERAL_CHARACTERISTIC_SPECS,
+  BILATERAL_SERVICE_LAYOUTS,
+  BilateralCharacteristicKey,
+} from '../types/bilateral.types';
+import {
+  BATTERY_SERVICE_UUID,
+  DEVICE_INFORMATION_CHARACTERISTICS,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  DeviceInformation,
+} from '../types/standard-services.types';
+
+export { CONFIG_SERVICE_UUID, MotorMode };
+export type { DeviceConfig, ConnectionPhase, ConnectionStatus };
+
+/**
+ * Characteristic UUID by key (derived from CHARACTERISTIC_SCHEMA)
+ */
+export const CHARACTERISTICS = Object.fromEntries(
+  CHARACTERISTIC_KEYS.map(key => [key, CHARACTERISTIC_SCHEMA[key].uuid])
+) as Record<CharacteristicKey, string>;
 
 export const MOTOR_MODE_LABELS = {
   [MotorMode.MODE_05HZ_25]: '0.5 Hz @ 25%',
@@ -78,67 +124,267 @@ export const COLOR_PALETTE = [
   { name: 'Dark Orange', rgb: [255, 140, 0] }, // 15: Warm tone
 ];
 
-export interface DeviceConfig {
-  // Motor Control
-  mode: MotorMode;
-  customFrequency: number; // Hz × 100 (25-200 = 0.25-2.0 Hz)
-  customDutyCycle: number; // 10-100%
-  // Per-mode PWM intensity settings
-  mode0Intensity: number; // 50-80% (0.5Hz preset)
-  mode1Intensity: number; // 50-80% (1.0Hz preset)
-  mode2Intensity: number; // 70-90% (1.5Hz preset)
-  mode3Intensity: number; // 70-90% (2.0Hz preset)
-  mode4Intensity: number; // 30-80% (Custom mode)
-
-  // LED Control
-  ledEnable: boolean;
-  ledColorMode: number; // 0=palette, 1=custom RGB
-  ledPaletteIndex: number; // 0-15
-  ledCustomRGB: [number, number, number]; // RGB 0-255
-  ledBrightness: number; // 10-30%
-
-  // Status/Monitoring
-  sessionDuration: number; // 1200-5400 sec (20-90 min)
-  sessionTime: number; // Elapsed seconds (read-only)
-  batteryLevel: number; // 0-100% (read-only)
-  clientBatteryLevel: number; // 0-100% (read-only, 0 if no client connected)
-
-  // Firmware Version (read-only)
-  localFirmwareVersion: string; // e.g., "vMAJOR.MINOR.PATCH (MMM DD YYYY HH:MM:SS)"
-  peerFirmwareVersion: string; // Same format, empty if no peer connected
+/**
+ * Characteristic backing each DeviceConfig field
+ */
+export const DEVICE_CONFIG_CHARACTERISTICS = Object.fromEntries(
+  CHARACTERISTIC_KEYS.map(key => [CHARACTERISTIC_SCHEMA[key].field, key])
+) as Record<keyof DeviceConfig, CharacteristicKey>;
+
+/**
+ * Values used for fields that could not be read (and have no cached value)
+ * Matches AD032 first-boot defaults where one is specified
+ */
+export const DEFAULT_DEVICE_CONFIG: DeviceConfig = {
+  mode: MotorMode.MODE_05HZ_25,
+  customFrequency: 100,
+  customDutyCycle: 50,
+  mode0Intensity: 65,
+  mode1Intensity: 65,
+  mode2Intensity: 80,
+  mode3Intensity: 80,
+  mode4Intensity: 55,
+  ledEnable: false,
+  ledColorMode: 1,
+  ledPaletteIndex: 0,
+  ledCustomRGB: [255, 0, 0],
+  ledBrightness: 20,
+  sessionDuration: 1200,
+  sessionTime: 0,
+  batteryLevel: 0,
+  clientBatteryLevel: 0,
+  localFirmwareVersion: '',
+  peerFirmwareVersion: '',
+};
+
+/**
+ * Outcome of reading one DeviceConfig field
+ * - read: value came from the device
+ * - unsupported: the firmware doesn't expose the characteristic (value is a default)
+ * - failed: the characteristic exists but the read failed (value is cached or default)
+ */
+export type ConfigFieldStatus = 'read' | 'unsupported' | 'failed';
+
+export interface ConfigReadResult {
+  config: DeviceConfig;
+  fieldStatus: Record<keyof DeviceConfig, ConfigFieldStatus>;
+  errors: Partial<Record<keyof DeviceConfig, string>>; // Error message per failed field
 }
 
 export interface ScanOptions {
   namePrefix?: string; // Filter devices by name prefix (e.g., "EMDR", "MLEHaptics")
   acceptAllDevices?: boolean; // Show all BLE devices (for testing/debugging)
   disableAutoNotifications?: boolean; // Disable automatic notifications for battery/session time (use polling instead)
+  extraServices?: string[]; // Additional service UUIDs to request access to (GATT explorer on prototype firmware)
+  phaseTimeoutsMs?: Partial<Record<TimedConnectPhase, number>>; // Overrides the connect/discovery timeout settings
+  signal?: AbortSignal; // Aborting cancels the connection attempt (like disconnect() while connecting)
+}
+
+/**
+ * Outcome of an app-level emergency stop
+ * - shutdown: AD030 Emergency Shutdown was sent (fire-and-forget, nothing to restore)
+ * - fallback: intensities were set to 0 and the LED turned off; failed lists writes that didn't go through
+ */
+export interface EmergencyStopResult {
+  method: 'shutdown' | 'fallback';
+  failed: CharacteristicKey[];
+  restorable: boolean; // Previous intensities/LED state can be written back
+}
+
+/**
+ * Result of writeConfig()
+ * - written: characteristics that differed from the cached config and were written (in write order)
+ * - unchanged: already matched the cached config (not written)
+ * - unsupported: not exposed by the firmware (skipped)
+ */
+export interface WriteConfigResult {
+  written: PresetCharacteristicKey[];
+  unchanged: PresetCharacteristicKey[];
+  unsupported: PresetCharacteristicKey[];
+}
+
+export interface WriteConfigProgress {
+  completed: number; // Writes done so far
+  total: number; // Writes needed (changed characteristics only)
+  key: PresetCharacteristicKey; // Characteristic just written
 }
 
+/**
+ * Final state of one field after applyConfig(), confirmed by reading it back
+ * - applied: device has the requested value
+ * - unchanged: device already had the requested value (nothing written)
+ * - restored: the apply failed and the device is back on its previous value
+ * - mismatch: device has neither the requested nor the previous value
+ * - unknown: the value could not be read back
+ * - unsupported: the firmware doesn't expose the characteristic
+ */
+export type ConfigFieldOutcome = 'applied' | 'unchanged' | 'restored' | 'mismatch' | 'unknown' | 'unsupported';
+
+export interface ConfigFieldReport {
+  key: PresetCharacteristicKey;
+  outcome: ConfigFieldOutcome;
+  requested: CharacteristicValue<PresetCharacteristicKey>;
+  previous: CharacteristicValue<PresetCharacteristicKey> | null; // From the snapshot (null if never read)
+  actual: CharacteristicValue<PresetCharacteristicKey> | null; // Read back after the apply (null if unreadable)
+}
+
+export interface ApplyConfigResult {
+  success: boolean; // Every supported field verified as applied/unchanged
+  rolledBack: boolean; // A write failed and the snapshot was written back
+  error?: BLEError; // The write error that triggered the rollback
+  fields: ConfigFieldReport[];
+}
+
+/**
+ * The fields of config that partial sets (used to write a snapshot back)
+ */
+const presetFieldsOf = (config: DeviceConfig, partial: Partial<PresetConfig>): Partial<PresetConfig> =>
+  Object.fromEntries(
+    Object.keys(partial).map(field => [field, config[field as keyof PresetConfig]])
+  ) as Partial<PresetConfig>;
+
+/**
+ * Settle like work, but reject with the abort reason as soon as signal aborts
+ * (a hung gatt.connect() or getPrimaryService() would otherwise never settle)
+ */
+const untilAborted = <T>(work: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(signal.reason);
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
+
+const sameValue = (a: unknown, b: unknown): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((item, index) => item === b[index])
+    : a === b;
+
+// Intensities zeroed by the emergency stop fallback (LED_ENABLE is turned off as well)
+const EMERGENCY_STOP_INTENSITY_KEYS = [
+  'MODE_0_INTENSITY',
+  'MODE_1_INTENSITY',
+  'MODE_2_INTENSITY',
+  'MODE_3_INTENSITY',
+  'MODE_4_INTENSITY',
+] as const;
+
+type EmergencyStopKey = (typeof EMERGENCY_STOP_INTENSITY_KEYS)[number] | 'LED_ENABLE';
+
+// Services the PWA may access (Web Bluetooth blocks services not listed when requesting the device)
+const OPTIONAL_SERVICES = [
+  CONFIG_SERVICE_UUID,
+  ...BILATERAL_SERVICE_LAYOUTS.map(layout => layout.serviceUuid),
+  BATTERY_SERVICE_UUID,
+  DEVICE_INFORMATION_SERVICE_UUID,
+];
+
+// What a timed-out connect phase was doing, for the timeout error message
+const PHASE_TIMEOUT_MESSAGES: Record<TimedConnectPhase, string> = {
+  connecting: 'Opening the Bluetooth link',
+  discovering: 'Discovering device features',
+  subscribing: 'Enabling live updates',
+  reading: 'Reading the device configuration',
+};
+
+// Notifications delivered without coalescing: a MODE change from the device button must reach the UI at once
+const IMMEDIATE_NOTIFICATION_KEYS: ReadonlySet<CharacteristicKey> = new Set(['MODE']);
+
+// Auto-reconnect backoff: starts at PWASettings.ble.reconnectDelayMs and doubles per attempt
+const MAX_RECONNECT_ATTEMPTS = 5;
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Liveness watchdog: Android can keep gatt.connected true after the link died. SESSION_TIME is
+// notified every 60s, so a quiet period longer than that (plus slack) triggers a probe read.
+const SESSION_TIME_NOTIFY_PERIOD_MS = 60000;
+const LIVENESS_WINDOW_MS = SESSION_TIME_NOTIFY_PERIOD_MS + 15000;
+const LIVENESS_CHECK_INTERVAL_MS = 5000;
+// Cheap reads for the probe, in order of preference
+const LIVENESS_PROBE_KEYS: readonly CharacteristicKey[] = ['SESSION_TIME', 'BATTERY_LEVEL', 'MODE'];
+
+// After the peer joins, give the units time to exchange firmware versions before reading PEER_FIRMWARE_VERSION
+const PEER_FIRMWARE_SETTLE_MS = 2000;
+
 export class BLEConfigService {
-  private device: BluetoothDevice | null = null;
-  private server: BluetoothRemoteGATTServer | null = null;
-  private service: BluetoothRemoteGATTService | null = null;
-  private characteristics: Map<string, BluetoothRemoteGATTCharacteristic> = new Map();
+  private transport: ConfigTransport | null = null;
+  private availableCharacteristics: Set<CharacteristicKey> = new Set();
+
+  // Every read, write and notification start runs through this queue (one GATT op at a time)
+  private operationQueue = new GattOperationQueue();
+
+  // Characteristic notifications (subscribe) and service events (on)
+  private characteristicEvents = new TypedEventEmitter<CharacteristicEvents>();
+  private events = new TypedEventEmitter<BLEServiceEvents>();
 
-  private listeners: Map<string, Set<(value: any) => void>> = new Map();
   private cachedConfig: DeviceConfig | null = null;
+  // Fields whose cached value came from the device this session (read, notified or written)
+  private confirmedFields: Set<CharacteristicKey> = new Set();
   private autoNotificationsEnabled: boolean = true;
-  private configChangeListeners: Set<(config: DeviceConfig) => void> = new Set();
 
-  // Track event listeners for proper cleanup
-  private characteristicEventListeners: Map<string, (event: Event) => void> = new Map();
-  private characteristicsWithNotifications: Set<string> = new Set();
-  private disconnectHandler: (() => void) | null = null;
+  // Parsed from LOCAL_FIRMWARE_VERSION on connect; gates UI features
+  private firmwareVersion: FirmwareVersion | null = null;
+  private firmwareCapabilities: FirmwareCapabilities = DEFAULT_FIRMWARE_CAPABILITIES;
+
+  // Local vs peer firmware; the peer is present while CLIENT_BATTERY is non-zero
+  private firmwareMismatch: FirmwareMismatch | null = null;
+  private peerPresent = false;
+  private peerFirmwareTimer: number | null = null;
 
-  // External disconnect listeners (for UI notification)
-  private disconnectListeners: Set<() => void> = new Set();
+  // Reads, writes, notifications and link events (kept across connections)
+  private trafficRecorder = new TrafficRecorder();
+
+  // recordOperation() as handed to the Bilateral Control and standard service clients
+  private operationRecorder: TrafficOperationRecorder = (type, key, operation, sentBytes) =>
+    this.recordOperation(type, key, operation, sentBytes);
+
+  // Optional Battery Service and Device Information Service
+  private standardServices = new StandardServicesClient();
+
+  // Optional packed preset characteristic (one GATT op for readConfig/writeConfig), null if absent
+  private bulkConfigChannel: GattServiceChannel<BulkConfigKey> | null = null;
+
+  // Config before the last emergency stop fallback (for one-tap restore)
+  private emergencyStopSnapshot: DeviceConfig | null = null;
+
+  // Track notifications and the transport disconnect subscription for proper cleanup
+  private characteristicsWithNotifications: Set<CharacteristicKey> = new Set();
+
+  // Latest undelivered value per characteristic within the notification debounce window
+  private pendingNotifications: Map<
+    CharacteristicKey,
+    { value: CharacteristicEvents[CharacteristicKey]; timer: number }
+  > = new Map();
+  private transportDisconnectUnsubscribe: (() => void) | null = null;
+
+  // Connection lifecycle (see connection-phase.ts) and auto-reconnect state
+  private connectionPhase: ConnectionPhase = 'idle';
+  private reconnectTimer: number | null = null;
+  private reconnectAttempt = 0;
+
+  // Liveness watchdog (runs while ready)
+  private lastActivityAt = 0; // Last notification or successful read/write
+  private livenessTimer: number | null = null;
+  private livenessProbeRunning = false;
+
+  // Connect attempt in progress: aborted by cancel, the caller's AbortSignal or a phase timeout
+  private connectAttempt: AbortController | null = null;
+  private phaseTimeoutsMs: Record<TimedConnectPhase, number> | null = null;
+  private phaseTimer: number | null = null;
+  // ScanOptions.phaseTimeoutsMs of the last connect, reused by auto-reconnect attempts
+  private phaseTimeoutOverrides: ScanOptions['phaseTimeoutsMs'];
 
   private buildRequestOptions(options: ScanOptions): RequestDeviceOptions {
+    // Web Bluetooth only exposes services named in the request
+    const optionalServices = [...OPTIONAL_SERVICES, ...(options.extraServices ?? [])];
+
     // If acceptAllDevices is true, show all BLE devices (testing mode)
     if (options.acceptAllDevices) {
       return {
         acceptAllDevices: true,
-        optionalServices: [CONFIG_SERVICE_UUID],
+        optionalServices,
       };
     }
 
@@ -161,412 +407,1577 @@ export class BLEConfigService {
 
     return {
       filters,
-      optionalServices: [CONFIG_SERVICE_UUID],
+      optionalServices,
     };
   }
 
   async connect(options: ScanOptions = {}): Promise<void> {
+    this.assertCanConnect('requesting');
+    this.transition('requesting');
+    await this.acquireTabOwnership();
     try {
-      // Store notification preference
-      this.autoNotificationsEnabled = !options.disableAutoNotifications;
-
       // Build request device options based on scan options
       const requestOptions: RequestDeviceOptions = this.buildRequestOptions(options);
 
       // Request device with Configuration Service
-      this.device = await navigator.bluetooth.requestDevice(requestOptions);
+      let transport: WebBluetoothTransport;
+      try {
+        transport = await WebBluetoothTransport.request(requestOptions, CONFIG_SERVICE_UUID, CHARACTERISTICS);
+      } catch (error) {
+        // Closing the chooser is not a failure
+        const bleError = toBLEError(error, 'connect');
+        this.transition(bleError.code === 'cancelled' ? 'idle' : 'failed');
+        throw bleError;
+      }
+
+      await this.connectTransport(transport, options);
+    } catch (error) {
+      console.error('BLE connection failed:', error);
+      throw error;
+    }
+  }
 
-      if (!this.device.gatt) {
-        throw new Error('GATT not supported');
+  /**
+   * Connect to a device this origin was granted before, skipping the chooser
+   * @param deviceId BluetoothDevice.id from knownDevicesService
+   */
+  async connectKnownDevice(deviceId: string, options: ScanOptions = {}): Promise<void> {
+    this.assertCanConnect('requesting');
+    this.transition('requesting');
+    await this.acquireTabOwnership();
+    try {
+      const device = await knownDevicesService.findDevice(deviceId).catch(error => {
+        this.transition('failed');
+        throw toBLEError(error, 'connect');
+      });
+      if (!device) {
+        this.transition('failed');
+        throw new BLEDeviceNotFoundError('device-forgotten');
       }
 
-      // Setup disconnect event listener before connecting
-      // This handles both user-initiated and unexpected disconnects
-      this.disconnectHandler = () => {
-        console.log('Device disconnected (gattserverdisconnected event)');
-        this.handleDisconnect();
-      };
-      this.device.addEventListener('gattserverdisconnected', this.disconnectHandler);
+      const transport = new WebBluetoothTransport(device, CONFIG_SERVICE_UUID, CHARACTERISTICS);
+      await this.connectTransport(transport, options);
+    } catch (error) {
+      console.error('BLE connection to known device failed:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Only one tab may talk to the device; the owner lock is released when back to idle/failed
+   * (The demo transport doesn't need it: connectTransport() alone doesn't take the lock)
+   */
+  private async acquireTabOwnership(): Promise<void> {
+    if (!(await tabSyncService.acquireOwnerLock())) {
+      this.transition('failed');
+      throw new BLEConnectionError('other-tab');
+    }
+  }
 
-      // Connect to GATT server
-      this.server = await this.device.gatt.connect();
+  /**
+   * Connect using an already-constructed transport (Web Bluetooth, simulated, recorded...)
+   * @param transport Transport to the device's Configuration Service
+   * @param options disableAutoNotifications, phaseTimeoutsMs and signal are used here; the rest applies to device selection
+   */
+  async connectTransport(transport: ConfigTransport, options: ScanOptions = {}): Promise<void> {
+    this.assertCanConnect('connecting');
+    if (options.signal?.aborted) {
+      // Aborted while the chooser was open
+      this.transition('idle');
+      throw new BLEConnectionError('cancelled');
+    }
 
-      // Get Configuration Service
-      this.service = await this.server.getPrimaryService(CONFIG_SERVICE_UUID);
+    this.phaseTimeoutOverrides = options.phaseTimeoutsMs;
+    const attempt = this.beginConnectAttempt();
+    this.transition('connecting');
 
-      // Get all characteristics
-      await this.discoverCharacteristics();
+    // Store notification preference
+    this.autoNotificationsEnabled = !options.disableAutoNotifications;
+    this.transport = transport;
 
-      // Setup notifications for read-only characteristics (only if enabled)
-      if (this.autoNotificationsEnabled) {
-        await this.setupNotifications();
-      } else {
-        console.log('Auto-notifications disabled. Using polling mode for battery/session time.');
+    // Handle unexpected link loss (auto-reconnect or full cleanup)
+    this.transportDisconnectUnsubscribe = transport.onDisconnect(() => {
+      this.handleUnexpectedDisconnect();
+    });
+
+    const cancelFromCaller = () => {
+      this.disconnect();
+    };
+    options.signal?.addEventListener('abort', cancelFromCaller);
+
+    try {
+      await untilAborted(this.setupGattSession(attempt.signal), attempt.signal);
+      this.advanceConnectPhase('ready');
+
+      // Remember the device (nickname, history); registry failures never block the connection
+      deviceRegistryService
+        .startSession(
+          transport.deviceId,
+          transport.deviceName,
+          this.cachedConfig,
+          this.standardServices.getDeviceInformation(),
+          () => this.cachedConfig
+        )
+        .catch(error => this.reportError({
+          operation: 'device registry',
+          message: 'Failed to update device registry',
+          severity: 'warning',
+          cause: error,
+        }));
+    } catch (error) {
+      // Cancelled by disconnect() during setup: already cleaned up
+      if (this.connectionPhase === 'idle' || this.connectionPhase === 'disconnecting') {
+        throw new BLEConnectionError('cancelled', { cause: error });
+      }
+      // Link lost during setup is already cleaned up too ('failed')
+      if (CONNECTING_PHASES.has(this.connectionPhase)) {
+        // Don't leave a half-open link behind
+        await transport.disconnect().catch(() => {});
+        this.handleDisconnect('failed');
       }
+      throw toBLEError(error, 'connect');
+    } finally {
+      options.signal?.removeEventListener('abort', cancelFromCaller);
+      this.endConnectAttempt(attempt);
+    }
+  }
 
-      // Read and cache initial configuration to ensure UI sync
-      console.log('Reading initial device configuration...');
-      this.cachedConfig = await this.readConfig();
-      console.log('Initial configuration loaded:', this.cachedConfig);
+  /**
+   * Start a connect or reconnect attempt: aborted by cancel or a phase timeout
+   */
+  private beginConnectAttempt(): AbortController {
+    const attempt = new AbortController();
+    this.connectAttempt = attempt;
+    this.phaseTimeoutsMs = this.resolvePhaseTimeouts();
+    return attempt;
+  }
+
+  /**
+   * Timeout per connect phase: settings, overridden per call by ScanOptions.phaseTimeoutsMs
+   */
+  private resolvePhaseTimeouts(): Record<TimedConnectPhase, number> {
+    const ble = this.getBLESettings();
+    return {
+      connecting: ble.connectTimeoutMs,
+      discovering: ble.discoveryTimeoutMs,
+      subscribing: ble.discoveryTimeoutMs,
+      reading: ble.discoveryTimeoutMs,
+      ...this.phaseTimeoutOverrides,
+    };
+  }
+
+  /**
+   * Restart the phase timer on every phase change of a connect attempt
+   */
+  private startPhaseTimer(phase: ConnectionPhase): void {
+    this.clearPhaseTimer();
+    const attempt = this.connectAttempt;
+    const timeoutMs = this.getPhaseTimeoutMs(phase);
+    if (!attempt || timeoutMs === null) return;
+
+    this.phaseTimer = window.setTimeout(() => {
+      this.phaseTimer = null;
+      console.warn(`Connect phase ${phase} timed out after ${timeoutMs}ms`);
+      attempt.abort(new BLEConnectionError('connect-timeout', {
+        message: `${PHASE_TIMEOUT_MESSAGES[phase as TimedConnectPhase]} took longer than ${timeoutMs / 1000}s and was stopped.`,
+      }));
+    }, timeoutMs);
+  }
+
+  private clearPhaseTimer(): void {
+    if (this.phaseTimer !== null) {
+      clearTimeout(this.phaseTimer);
+      this.phaseTimer = null;
+    }
+  }
+
+  private endConnectAttempt(attempt: AbortController): void {
+    // A newer attempt may have started meanwhile
+    if (this.connectAttempt !== attempt) return;
+    this.clearPhaseTimer();
+    this.connectAttempt = null;
+    this.phaseTimeoutsMs = null;
+  }
+
+  /**
+   * Timeout of a phase in the current connect attempt (for ConnectingOverlay), null if not timed
+   */
+  getPhaseTimeoutMs(phase: ConnectionPhase): number | null {
+    if (!this.phaseTimeoutsMs || !TIMED_CONNECT_PHASES.has(phase)) return null;
+    return this.phaseTimeoutsMs[phase as TimedConnectPhase];
+  }
+
+  /**
+   * Connect the transport, discover characteristics, restore notifications and read config
+   * Shared by connectTransport() (stepping through the connect phases) and the auto-reconnect
+   * loop (which stays in 'reconnecting')
+   * @param signal The attempt's signal: once it aborts (cancel, timeout) the setup stops at the next
+   *   step, so an abandoned attempt can't touch the state of a newer one
+   */
+  private async setupGattSession(signal: AbortSignal): Promise<void> {
+    if (!this.transport) throw new Error('Transport not initialized');
+
+    const transport = this.transport;
+    await this.recordLinkEvent('connect', () => transport.connect(), transport.deviceName);
+    signal.throwIfAborted();
+
+    // Get all characteristics
+    this.advanceConnectPhase('discovering');
+    await this.discoverCharacteristics(transport, signal);
+
+    // Optional BULK_CONFIG fast path; per-characteristic access works without it
+    try {
+      await this.discoverBulkConfig(transport, signal);
     } catch (error) {
-      console.error('BLE connection failed:', error);
-      throw error;
+      signal.throwIfAborted();
+      this.reportError({
+        operation: 'bulk config discovery',
+        message: 'Bulk config characteristic discovery failed',
+        severity: 'warning',
+        cause: error,
+      });
     }
+
+    // Optional Bilateral Control Service (AD030); its absence is not an error
+    try {
+      await bilateralControlService.discover(transport, this.operationQueue, this.operationRecorder, signal);
+    } catch (error) {
+      signal.throwIfAborted();
+      this.reportError({
+        operation: 'bilateral discovery',
+        message: 'Bilateral Control Service discovery failed',
+        severity: 'warning',
+        cause: error,
+      });
+    }
+
+    // Optional Battery Service / Device Information Service (fallbacks and hardware details)
+    try {
+      await this.standardServices.discover(transport, this.operationQueue, this.operationRecorder, signal);
+    } catch (error) {
+      signal.throwIfAborted();
+      this.reportError({
+        operation: 'standard services discovery',
+        message: 'Battery/Device Information Service discovery failed',
+        severity: 'warning',
+        cause: error,
+      });
+    }
+
+    // Setup notifications for read-only characteristics (only if enabled)
+    if (this.autoNotificationsEnabled) {
+      this.advanceConnectPhase('subscribing');
+      await this.setupNotifications(signal);
+    } else {
+      console.log('Auto-notifications disabled. Using polling mode for battery/session time.');
+    }
+
+    // Read and cache initial configuration to ensure UI sync
+    this.advanceConnectPhase('reading');
+    console.log('Reading initial device configuration...');
+    const { config, errors } = await this.readConfig(signal);
+    console.log('Initial configuration loaded:', config);
+    if (Object.keys(errors).length > 0) {
+      console.warn('Some configuration fields could not be read:', errors);
+    }
+
+    // Work out which features this firmware supports
+    this.firmwareVersion = parseFirmwareVersion(config.localFirmwareVersion);
+    this.firmwareCapabilities = resolveFirmwareCapabilities(
+      this.firmwareVersion,
+      (key) => this.availableCharacteristics.has(key),
+      this.characteristicsWithNotifications.has('MODE')
+    );
+    console.log('Firmware capabilities:', this.firmwareCapabilities);
+
+    // Dual-device mode: both units should run the same build
+    this.peerPresent = config.clientBatteryLevel > 0;
+    this.updateFirmwareMismatch(config.localFirmwareVersion, this.peerPresent ? config.peerFirmwareVersion : '');
+  }
+
+  /**
+   * Recompute the local/peer firmware comparison and emit it when it changed
+   * @param peerRaw Empty when no peer is connected (clears any mismatch)
+   */
+  private updateFirmwareMismatch(localRaw: string, peerRaw: string): void {
+    const mismatch = findFirmwareMismatch(localRaw, peerRaw);
+    const previous = this.firmwareMismatch;
+    if (
+      mismatch?.local === previous?.local &&
+      mismatch?.peer === previous?.peer &&
+      mismatch?.behind === previous?.behind
+    ) {
+      return;
+    }
+
+    this.firmwareMismatch = mismatch;
+    if (mismatch) {
+      console.warn(`Firmware mismatch: local ${mismatch.local}, peer ${mismatch.peer} (behind: ${mismatch.behind})`);
+    }
+    this.events.emit('firmwareMismatch', mismatch);
+  }
+
+  /**
+   * CLIENT_BATTERY went 0 ↔ non-zero: the peer joined or left mid-session
+   */
+  private notePeerPresence(clientBatteryLevel: number): void {
+    const present = clientBatteryLevel > 0;
+    if (present === this.peerPresent) return;
+    this.peerPresent = present;
+
+    if (this.peerFirmwareTimer !== null) {
+      clearTimeout(this.peerFirmwareTimer);
+      this.peerFirmwareTimer = null;
+    }
+    const localRaw = this.cachedConfig?.localFirmwareVersion ?? '';
+    if (!present) {
+      console.log('Peer device left');
+      this.updateFirmwareMismatch(localRaw, '');
+      return;
+    }
+
+    console.log('Peer device joined, rechecking its firmware version...');
+    this.peerFirmwareTimer = window.setTimeout(() => {
+      this.peerFirmwareTimer = null;
+      this.recheckPeerFirmware();
+    }, PEER_FIRMWARE_SETTLE_MS);
+  }
+
+  private async recheckPeerFirmware(): Promise<void> {
+    if (!this.availableCharacteristics.has('PEER_FIRMWARE_VERSION')) return;
+    try {
+      const peerRaw = await this.readCharacteristic('PEER_FIRMWARE_VERSION');
+      this.updateCachedValue('PEER_FIRMWARE_VERSION', peerRaw);
+      if (this.peerPresent) {
+        this.updateFirmwareMismatch(this.cachedConfig?.localFirmwareVersion ?? '', peerRaw);
+      }
+    } catch (error) {
+      this.reportError({
+        operation: 'peer firmware check',
+        message: 'Failed to read the peer firmware version',
+        severity: 'warning',
+        cause: error,
+      });
+    }
+  }
+
+  /**
+   * Local/peer firmware build mismatch, null when they match or no peer is connected
+   */
+  getFirmwareMismatch(): FirmwareMismatch | null {
+    return this.firmwareMismatch;
   }
 
+  /**
+   * Disconnect, also cancelling a connection still being set up or an auto-reconnect
+   */
   async disconnect(): Promise<void> {
+    const transport = this.transport;
+    if (!transport || this.connectionPhase === 'disconnecting') {
+      console.log('Nothing to disconnect');
+      return;
+    }
+
+    const wasConnecting = CONNECTING_PHASES.has(this.connectionPhase) || this.connectionPhase === 'reconnecting';
+    this.transition('disconnecting');
+    if (wasConnecting) {
+      // Fail the queued setup steps now instead of waiting for them; the connect call rejects
+      this.operationQueue.clear(new BLEConnectionError('cancelled'));
+      this.connectAttempt?.abort(new BLEConnectionError('cancelled'));
+    }
+
     try {
-      if (!this.device?.gatt?.connected) {
+      if (!transport.isConnected()) {
         console.log('Device already disconnected');
+        await transport?.disconnect();
         this.handleDisconnect();
         return;
       }
 
       console.log('Starting disconnect sequence...');
 
-      // Step 1: Stop all notifications and remove characteristic event listeners
-      // This is critical for Android to properly release BLE resources
-      console.log('Cleaning up notifications and event listeners...');
+      // We'll clean up manually instead of letting the disconnect event trigger
+      this.transportDisconnectUnsubscribe?.();
+      this.transportDisconnectUnsubscribe = null;
+
+      // Stop notifications and close the link (transport handles platform workarounds)
       await this.stopNotifications();
+      await this.recordLinkEvent('disconnect', () => transport.disconnect(), 'requested');
 
-      // Step 2: Perform a final characteristic read to ensure BLE connection is active
-      // This is a workaround for Android Chrome where gatt.disconnect() doesn't always
-      // send the disconnect packet if the connection is "idle"
-      try {
-        console.log('Performing final read to activate BLE connection...');
-        await this.readUint8('MODE');
-        console.log('Final read completed');
-      } catch (readError) {
-        console.warn('Final read failed (connection may already be unstable):', readError);
-      }
+      // Clean up all references
+      this.handleDisconnect();
+
+      console.log('Disconnect complete');
+    } catch (error) {
+      console.error('Error during disconnect:', error);
+      // Still clean up references even if there was an error
+      this.handleDisconnect();
+    }
+  }
+
+  /**
+   * Called when the transport reports unexpected link loss
+   * Starts the auto-reconnect loop if enabled, otherwise tears everything down
+   */
+  private handleUnexpectedDisconnect(): void {
+    this.trafficRecorder.record({
+      timestamp: Date.now(),
+      type: 'disconnect',
+      key: null,
+      bytes: null,
+      value: 'link lost',
+      durationMs: null,
+    });
+    if (this.connectionPhase === 'reconnecting') {
+      // A reconnect attempt dropped mid-setup; the pending attempt will fail and reschedule
+      return;
+    }
 
-      // Step 3: Small delay to let the read complete and BLE stack stabilize
-      await new Promise(resolve => setTimeout(resolve, 100));
+    if (this.connectionPhase === 'ready' && this.getBLESettings().autoReconnect) {
+      this.startReconnect();
+    } else {
+      // Dropped while still setting up: the connect attempt failed
+      this.handleDisconnect(CONNECTING_PHASES.has(this.connectionPhase) ? 'failed' : 'idle');
+    }
+  }
+
+  private getBLESettings(): PWASettings['ble'] {
+    return pwaSettingsService.getCachedSettings()?.ble ?? DEFAULT_PWA_SETTINGS.ble;
+  }
+
+  private startReconnect(): void {
+    console.log('Connection lost unexpectedly, starting auto-reconnect...');
+    this.resetGattState();
+    this.reconnectAttempt = 0;
+    this.transition('reconnecting');
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      this.reportError({
+        operation: 'reconnect',
+        message: `Could not reconnect to ${this.getDeviceName()} after ${MAX_RECONNECT_ATTEMPTS} attempts`,
+        severity: 'error',
+      });
+      this.handleDisconnect('failed');
+      return;
+    }
+
+    // Exponential backoff starting at the configured reconnect delay
+    const delay = Math.min(
+      this.getBLESettings().reconnectDelayMs * 2 ** this.reconnectAttempt,
+      MAX_RECONNECT_DELAY_MS
+    );
+    this.reconnectAttempt++;
+    console.log(`Reconnect attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS} in ${delay}ms`);
+
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.attemptReconnect();
+    }, delay);
+  }
 
-      // Step 4: Remove the gattserverdisconnected event listener
-      // We'll clean up manually instead of letting the event trigger
-      if (this.device && this.disconnectHandler) {
-        this.device.removeEventListener('gattserverdisconnected', this.disconnectHandler);
+  private async attemptReconnect(): Promise<void> {
+    const transport = this.transport;
+    if (!transport || this.connectionPhase !== 'reconnecting') return;
+
+    // Same per-step timeouts as connecting; a timeout counts as a failed attempt
+    const attempt = this.beginConnectAttempt();
+    this.startPhaseTimer('connecting');
+    try {
+      await untilAborted(this.setupGattSession(attempt.signal), attempt.signal);
+
+      // User may have pressed Disconnect while this attempt was in flight
+      if (this.connectionPhase !== 'reconnecting') {
+        await transport.disconnect();
+        return;
       }
 
-      // Step 5: Disconnect GATT server
-      // After the characteristic read, the BLE stack should now send the disconnect packet
-      console.log('Sending disconnect to GATT server...');
-      this.device.gatt.disconnect();
+      console.log('Reconnected successfully');
+      this.reconnectAttempt = 0;
+      this.transition('ready');
+    } catch (error) {
+      console.warn(`Reconnect attempt ${this.reconnectAttempt} failed:`, error);
+      if (this.connectionPhase !== 'reconnecting') return;
+      // A timed-out attempt may have left the link half open
+      transport.dropLink();
+      this.resetGattState();
+      this.scheduleReconnect();
+    } finally {
+      this.endConnectAttempt(attempt);
+    }
+  }
 
-      // Step 6: Wait to ensure disconnect packet is sent by BLE stack
-      // Android needs this delay to actually transmit the disconnect
-      console.log('Waiting for disconnect packet to be sent...');
-      await new Promise(resolve => setTimeout(resolve, 150));
+  private cancelReconnect(): void {
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
 
-      // Step 7: Clean up all references
-      this.handleDisconnect();
+  /**
+   * Move to another connection phase, emitting connectionPhase (and connectionStatus when it changes)
+   * Throws on a transition connection-phase.ts doesn't allow
+   */
+  private transition(phase: ConnectionPhase): void {
+    const previous = this.connectionPhase;
+    if (previous === phase) return;
+    if (!canTransition(previous, phase)) {
+      throw new Error(`Invalid connection phase change: ${previous} → ${phase}`);
+    }
 
-      console.log('Disconnect complete');
+    this.connectionPhase = phase;
+    this.startPhaseTimer(phase);
+    if (phase === 'idle' || phase === 'failed') {
+      tabSyncService.releaseOwnership();
+    }
+    if (phase === 'ready') {
+      this.startLivenessWatchdog();
+    } else {
+      this.stopLivenessWatchdog();
+    }
+    this.events.emit('connectionPhase', phase);
+    const status = connectionStatusForPhase(phase);
+    if (status !== connectionStatusForPhase(previous)) {
+      this.events.emit('connectionStatus', status);
+    }
+  }
+
+  private startLivenessWatchdog(): void {
+    this.stopLivenessWatchdog();
+    this.lastActivityAt = Date.now();
+    this.livenessTimer = window.setInterval(() => {
+      if (!this.livenessProbeRunning && Date.now() - this.lastActivityAt >= LIVENESS_WINDOW_MS) {
+        this.probeLiveness();
+      }
+    }, LIVENESS_CHECK_INTERVAL_MS);
+  }
+
+  private stopLivenessWatchdog(): void {
+    if (this.livenessTimer !== null) {
+      clearInterval(this.livenessTimer);
+      this.livenessTimer = null;
+    }
+    this.setLinkStale(false);
+  }
+
+  /**
+   * Nothing arrived for a whole notify period: read something small to check the link
+   * A failed probe is handled like the transport reporting link loss
+   */
+  private async probeLiveness(): Promise<void> {
+    const transport = this.transport;
+    const probeKey = LIVENESS_PROBE_KEYS.find(key => this.availableCharacteristics.has(key));
+    if (!transport || !probeKey) return;
+
+    console.log(`No BLE traffic for ${LIVENESS_WINDOW_MS / 1000}s, probing the link with a ${probeKey} read...`);
+    this.setLinkStale(true);
+    try {
+      await this.readCharacteristic(probeKey);
+      this.setLinkStale(false);
     } catch (error) {
-      console.error('Error during disconnect:', error);
-      // Still clean up references even if there was an error
-      this.handleDisconnect();
+      // Disconnected or torn down meanwhile: nothing left to do
+      if (this.transport !== transport || this.connectionPhase !== 'ready') return;
+
+      console.warn('Liveness probe failed, treating the link as lost:', error);
+      // Close the dead link first: Android can still report it as connected, and the
+      // reconnect would then reuse the stale GATT server instead of opening a new one
+      transport.dropLink();
+      this.handleUnexpectedDisconnect();
+      if (this.transport !== transport) {
+        // Fully torn down (no auto-reconnect): release the dead link as well
+        await transport.disconnect().catch(() => {});
+      }
     }
   }
 
-  private handleDisconnect(): void {
-    // Clean up all internal state
-    // This is called both by disconnect() and by the gattserverdisconnected event
+  private setLinkStale(stale: boolean): void {
+    if (this.livenessProbeRunning === stale) return;
+    this.livenessProbeRunning = stale;
+    this.events.emit('linkStale', stale);
+  }
+
+  /**
+   * Whether a liveness probe is checking a quiet link right now
+   */
+  isLinkStale(): boolean {
+    return this.livenessProbeRunning;
+  }
+
+  /**
+   * Step a connect attempt forward; auto-reconnect attempts stay in 'reconnecting'
+   * Throws if the attempt was cancelled (disconnect() or link loss moved the phase on)
+   */
+  private advanceConnectPhase(phase: ConnectionPhase): void {
+    if (this.connectionPhase === 'reconnecting') {
+      // The phase stays put, but each step still runs against its own timeout
+      this.startPhaseTimer(phase);
+      return;
+    }
+    if (!CONNECTING_PHASES.has(this.connectionPhase)) {
+      throw new BLEConnectionError('cancelled');
+    }
+    this.transition(phase);
+  }
+
+  /**
+   * Reject starting a connection unless idle or failed (e.g. connect() while connecting)
+   */
+  private assertCanConnect(next: 'requesting' | 'connecting'): void {
+    if (!canTransition(this.connectionPhase, next)) {
+      throw new BLEConnectionError('already-connected');
+    }
+  }
+
+  /**
+   * Log a background failure and report it to 'error' subscribers
+   */
+  private reportError(error: BLEServiceError): void {
+    const log = error.severity === 'error' ? console.error : console.warn;
+    log(error.message, ...(error.cause === undefined ? [] : [error.cause]));
+    this.events.emit('error', error);
+  }
+
+  /**
+   * Drop discovered characteristics and notification tracking but keep the transport,
+   * subscribers and config listeners so a reconnect can restore them
+   */
+  private resetGattState(): void {
+    this.operationQueue.clear(new Error('Device disconnected'));
+    bilateralControlService.reset();
+    this.standardServices.reset();
+    this.bulkConfigChannel = null;
+    this.confirmedFields.clear();
+    this.availableCharacteristics.clear();
+    this.characteristicsWithNotifications.clear();
+    this.pendingNotifications.forEach(pending => clearTimeout(pending.timer));
+    this.pendingNotifications.clear();
+    if (this.peerFirmwareTimer !== null) {
+      clearTimeout(this.peerFirmwareTimer);
+      this.peerFirmwareTimer = null;
+    }
+  }
 
-    // Notify external disconnect listeners BEFORE clearing state
+  /**
+   * @param finalPhase 'failed' when a connect attempt or auto-reconnect failed
+   */
+  private handleDisconnect(finalPhase: 'idle' | 'failed' = 'idle'): void {
+    // Clean up all internal state
+    // This is called both by disconnect() and by the transport disconnect event, which can
+    // both fire for one drop; the second call finds everything torn down already
+    if (!this.transport) return;
+    this.cancelReconnect();
+
+    // Add this connection's time and final config to the device registry
+    deviceRegistryService
+      .endSession(this.cachedConfig)
+      .catch(error => this.reportError({
+        operation: 'device registry',
+        message: 'Failed to update device registry',
+        severity: 'warning',
+        cause: error,
+      }));
+
+    // Notify disconnect subscribers BEFORE clearing state
     // This allows UI components to react to the disconnect
-    this.disconnectListeners.forEach(listener => {
-      try {
-        listener();
-      } catch (error) {
-        console.error('Error in disconnect listener:', error);
-      }
-    });
+    this.events.emit('disconnect', undefined);
 
-    this.device = null;
-    this.server = null;
-    this.service = null;
-    this.characteristics.clear();
-    this.listeners.clear();
+    this.transportDisconnectUnsubscribe?.();
+    this.transportDisconnectUnsubscribe = null;
+
+    this.transport = null;
+    this.resetGattState();
+    this.characteristicEvents.clear();
     this.cachedConfig = null;
-    this.characteristicsWithNotifications.clear();
-    this.characteristicEventListeners.clear();
-    this.disconnectHandler = null;
-    this.configChangeListeners.clear();
-    // Note: We don't clear disconnectListeners here - they persist across connections
+    this.firmwareVersion = null;
+    this.firmwareCapabilities = DEFAULT_FIRMWARE_CAPABILITIES;
+    this.peerPresent = false;
+    this.updateFirmwareMismatch('', '');
+    this.emergencyStopSnapshot = null;
+    this.events.clear('config');
+    this.transition(finalPhase);
+    // Note: connectionPhase, connectionStatus, disconnect and error subscribers persist across connections
   }
 
   isConnected(): boolean {
-    return this.device?.gatt?.connected ?? false;
+    return this.transport?.isConnected() ?? false;
+  }
+
+  /**
+   * Check if the service is currently trying to restore a dropped connection
+   */
+  isReconnecting(): boolean {
+    return this.connectionPhase === 'reconnecting';
+  }
+
+  getConnectionPhase(): ConnectionPhase {
+    return this.connectionPhase;
+  }
+
+  /**
+   * Id of the connected device (device registry key), null when not connected
+   */
+  getDeviceId(): string | null {
+    return this.transport?.deviceId ?? null;
   }
 
   getDeviceName(): string {
-    return this.device?.name ?? 'Unknown Device';
+    return this.transport?.deviceName ?? 'Unknown Device';
   }
 
-  private async discoverCharacteristics(): Promise<void> {
-    if (!this.service) throw new Error('Service not initialized');
+  private async discoverCharacteristics(transport: ConfigTransport, signal: AbortSignal): Promise<void> {
+    const found = await transport.discover(CHARACTERISTIC_KEYS);
+    signal.throwIfAborted();
+    this.availableCharacteristics = new Set(found);
 
-    for (const [key, uuid] of Object.entries(CHARACTERISTICS)) {
-      try {
-        const char = await this.service.getCharacteristic(uuid);
-        this.characteristics.set(key, char);
-      } catch (error) {
-        console.warn(`Characteristic ${key} not found:`, error);
-      }
+    // Older firmware lacks some characteristics; the UI disables the matching controls
+    const missing = this.getUnsupportedCharacteristics();
+    if (missing.length > 0) {
+      console.log(`Firmware does not expose ${missing.length} characteristic(s):`, missing);
+    }
+  }
+
+  /**
+   * Look for the optional BULK_CONFIG characteristic (packed preset fields, see bulk-config-codec.ts)
+   */
+  private async discoverBulkConfig(transport: ConfigTransport, signal: AbortSignal): Promise<void> {
+    if (!transport.openService) return;
+
+    const channel = await this.operationQueue.enqueue({
+      label: 'open Configuration Service (bulk config)',
+      priority: 'background',
+      run: () => transport.openService!(CONFIG_SERVICE_UUID, BULK_CONFIG_CHARACTERISTICS),
+    });
+    signal.throwIfAborted();
+    if (!channel) return;
+
+    const found = await this.operationQueue.enqueue({
+      label: 'discover BULK_CONFIG',
+      priority: 'background',
+      run: () => channel.discover(['BULK_CONFIG']),
+    });
+    signal.throwIfAborted();
+    this.bulkConfigChannel = found.length > 0 ? channel : null;
+  }
+
+  /**
+   * Check if the connected firmware exposes a characteristic
+   * (or a standard service stand-in for it, see characteristicSource())
+   */
+  isCharacteristicSupported(charKey: CharacteristicKey): boolean {
+    return this.availableCharacteristics.has(charKey) || this.standardServices.getFallback(charKey) !== null;
+  }
+
+  /**
+   * Device Information Service strings (serial number, hardware revision, ...), null if not exposed
+   */
+  getDeviceInformation(): DeviceInformation | null {
+    return this.standardServices.getDeviceInformation();
+  }
+
+  /**
+   * Where to read a characteristic: the Configuration Service, or the standard Battery/Device
+   * Information Service on firmware without the custom characteristic
+   */
+  private characteristicSource(charKey: CharacteristicKey): CharacteristicSource | null {
+    const transport = this.transport;
+    if (transport && this.availableCharacteristics.has(charKey)) {
+      return {
+        read: () => transport.read(charKey),
+        startNotifications: (listener) => transport.startNotifications(charKey, listener),
+        stopNotifications: () => transport.stopNotifications(charKey),
+      };
     }
+    return this.standardServices.getFallback(charKey);
+  }
+
+  /**
+   * Characteristics in CHARACTERISTICS that the connected firmware does not expose
+   * Empty when not connected
+   */
+  getUnsupportedCharacteristics(): CharacteristicKey[] {
+    if (!this.transport) return [];
+    return CHARACTERISTIC_KEYS.filter(key => !this.isCharacteristicSupported(key));
   }
 
-  private async setupNotifications(): Promise<void> {
-    // Setup notifications for status characteristics and MODE (if supported by firmware)
-    const notifyChars = ['SESSION_TIME', 'BATTERY_LEVEL', 'CLIENT_BATTERY', 'MODE'];
+  private async setupNotifications(signal: AbortSignal): Promise<void> {
+    // Setup notifications for every characteristic the schema marks as notifying (if supported by firmware)
+    const notifyChars = CHARACTERISTIC_KEYS.filter(key => CHARACTERISTIC_SCHEMA[key].notify);
 
     for (const charKey of notifyChars) {
-      const char = this.characteristics.get(charKey);
-      if (char) {
+      signal.throwIfAborted();
+      const source = this.characteristicSource(charKey);
+      if (source) {
         try {
-          await char.startNotifications();
+          await this.operationQueue.enqueue({
+            label: `start notifications ${charKey}`,
+            priority: 'background',
+            run: () => source.startNotifications((value) => {
+              this.handleCharacteristicChange(charKey, value);
+            }),
+          });
+          signal.throwIfAborted();
           this.characteristicsWithNotifications.add(charKey);
-
-          // Create and store event listener for cleanup
-          const listener = (event: Event) => {
-            this.handleCharacteristicChange(charKey, event.target as BluetoothRemoteGATTCharacteristic);
-          };
-          this.characteristicEventListeners.set(charKey, listener);
-          char.addEventListener('characteristicvaluechanged', listener);
           console.log(`Notifications enabled for ${charKey}`);
         } catch (error) {
-          console.warn(`Failed to setup notifications for ${charKey}:`, error);
+          signal.throwIfAborted();
+          this.reportError({
+            operation: `notifications ${charKey}`,
+            message: `Failed to setup notifications for ${charKey}`,
+            severity: 'warning',
+            cause: error,
+          });
         }
       }
     }
   }
 
   private async stopNotifications(): Promise<void> {
-    // Stop all notifications and remove event listeners
-    for (const charKey of this.characteristicsWithNotifications) {
-      const char = this.characteristics.get(charKey);
-      const listener = this.characteristicEventListeners.get(charKey);
+    // Drop queued operations; nothing else should reach the device while tearing down
+    this.operationQueue.clear(new Error('Device disconnecting'));
 
-      if (char && listener) {
-        try {
-          // Remove event listener first
-          char.removeEventListener('characteristicvaluechanged', listener);
-
-          // Stop notifications if still connected
-          if (this.device?.gatt?.connected) {
-            await char.stopNotifications();
-          }
-        } catch (error) {
-          console.warn(`Failed to cleanup notifications for ${charKey}:`, error);
-        }
+    // Stop all notifications and remove listeners
+    for (const charKey of this.characteristicsWithNotifications) {
+      try {
+        await this.characteristicSource(charKey)?.stopNotifications();
+      } catch (error) {
+        console.warn(`Failed to cleanup notifications for ${charKey}:`, error);
       }
     }
 
-    // Clear tracking sets/maps
+    // Clear tracking set
     this.characteristicsWithNotifications.clear();
-    this.characteristicEventListeners.clear();
-  }
-
-  private handleCharacteristicChange(key: string, char: BluetoothRemoteGATTCharacteristic): void {
-    const listeners = this.listeners.get(key);
-    if (!listeners || !char.value) return;
-
-    let value: any;
-    switch (key) {
-      case 'SESSION_TIME':
-      case 'SESSION_DURATION':
-        value = char.value.getUint32(0, true);
-        break;
-      case 'BATTERY_LEVEL':
-      case 'CLIENT_BATTERY':
-      case 'MODE':
-      case 'CUSTOM_DUTY_CYCLE':
-      case 'MODE_0_INTENSITY':
-      case 'MODE_1_INTENSITY':
-      case 'MODE_2_INTENSITY':
-      case 'MODE_3_INTENSITY':
-      case 'MODE_4_INTENSITY':
-      case 'LED_ENABLE':
-      case 'LED_COLOR_MODE':
-      case 'LED_PALETTE_INDEX':
-      case 'LED_BRIGHTNESS':
-        value = char.value.getUint8(0);
-        break;
-      case 'CUSTOM_FREQUENCY':
-        value = char.value.getUint16(0, true);
-        break;
-      case 'LED_CUSTOM_RGB':
-        value = [
-          char.value.getUint8(0),
-          char.value.getUint8(1),
-          char.value.getUint8(2),
-        ];
-        break;
-    }
-
-    listeners.forEach(listener => listener(value));
-  }
-
-  subscribe(characteristic: string, callback: (value: any) => void): () => void {
-    if (!this.listeners.has(characteristic)) {
-      this.listeners.set(characteristic, new Set());
-    }
-    this.listeners.get(characteristic)!.add(callback);
-
-    // Return unsubscribe function
-    return () => {
-      this.listeners.get(characteristic)?.delete(callback);
-    };
+  }
+
+  private handleCharacteristicChange(key: CharacteristicKey, view: DataView): void {
+    this.recordNotification(key, view);
+
+    const value = decodeCharacteristicValue(key, view);
+    if (key === 'CLIENT_BATTERY') {
+      this.notePeerPresence(value as CharacteristicValue<'CLIENT_BATTERY'>);
+    }
+
+    if (IMMEDIATE_NOTIFICATION_KEYS.has(key)) {
+      // Drop any older value still waiting, then deliver right away
+      const pending = this.pendingNotifications.get(key);
+      if (pending) clearTimeout(pending.timer);
+      this.pendingNotifications.delete(key);
+      this.deliverNotification(key, value);
+      return;
+    }
+
+    // Coalesce bursts: only the latest value in each PWASettings.ble.notificationDebounceMs window is delivered
+    const pending = this.pendingNotifications.get(key);
+    if (pending) {
+      pending.value = value;
+      return;
+    }
+    this.pendingNotifications.set(key, {
+      value,
+      timer: window.setTimeout(() => {
+        const latest = this.pendingNotifications.get(key);
+        this.pendingNotifications.delete(key);
+        if (latest) this.deliverNotification(key, latest.value);
+      }, this.getBLESettings().notificationDebounceMs),
+    });
+  }
+
+  private deliverNotification(key: CharacteristicKey, value: CharacteristicEvents[CharacteristicKey]): void {
+    // Keep the cache current too (diff base for writeConfig, state shown in other tabs)
+    this.updateCachedValue(key, value);
+    this.characteristicEvents.emit(key, value);
   }
 
   /**
-   * Subscribe to config changes (e.g., when presets are loaded)
-   * @param callback Function to call when config is updated
+   * Subscribe to decoded notifications of one characteristic
+   * e.g. subscribe('LED_CUSTOM_RGB', rgb => ...) receives [r, g, b]
+   * Subscriptions are dropped on disconnect (re-subscribe after connecting)
    * @returns Unsubscribe function
    */
-  onConfigChange(callback: (config: DeviceConfig) => void): () => void {
-    this.configChangeListeners.add(callback);
-
-    // Return unsubscribe function
-    return () => {
-      this.configChangeListeners.delete(callback);
-    };
+  subscribe<K extends CharacteristicKey>(key: K, callback: (value: CharacteristicValue<K>) => void): () => void {
+    return this.characteristicEvents.on(key, callback);
   }
 
   /**
-   * Subscribe to disconnect events (both user-initiated and unexpected)
-   * Useful for UI components that need to update when device disconnects
-   * @param callback Function to call when device disconnects
+   * Subscribe to service events
+   * - connectionStatus: connected / reconnecting / disconnected
+   * - disconnect: full disconnect (user-initiated, or link loss without auto-reconnect)
+   * - config: config read or changed (e.g. preset loaded); dropped on disconnect
+   * - error: background failures (notification setup, reconnect gave up, registry)
    * @returns Unsubscribe function
    */
-  onDisconnect(callback: () => void): () => void {
-    this.disconnectListeners.add(callback);
+  on<E extends keyof BLEServiceEvents>(event: E, callback: (payload: BLEServiceEvents[E]) => void): () => void {
+    return this.events.on(event, callback);
+  }
 
-    // Return unsubscribe function
-    return () => {
-      this.disconnectListeners.delete(callback);
-    };
+  // Raw transport access (serialized through the operation queue)
+  private async readValue(
+    charKey: CharacteristicKey,
+    priority: GattOperationPriority = 'background'
+  ): Promise<DataView> {
+    if (!this.transport) {
+      throw new BLEConnectionError('disconnected');
+    }
+    const source = this.characteristicSource(charKey);
+    if (!source) {
+      throw new BLEOperationError('characteristic-not-found', { cause: `Characteristic ${charKey} not found` });
+    }
+    return await this.operationQueue.enqueue({
+      label: `read ${charKey}`,
+      priority,
+      run: () => this.recordOperation('read', charKey, () => source.read()),
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+  }
+
+  /**
+   * Writes are user operations: they jump ahead of background reads,
+   * and a newer write to the same characteristic replaces one still waiting
+   */
+  private async writeValue(charKey: CharacteristicKey, bytes: Uint8Array): Promise<void> {
+    const transport = this.requireCharacteristic(charKey);
+    await this.operationQueue.enqueue({
+      label: `write ${charKey}`,
+      priority: 'user',
+      run: () => this.recordOperation('write', charKey, () => transport.write(charKey, bytes), bytes),
+      coalesceKey: `write:${charKey}`,
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+  }
+
+  private requireCharacteristic(charKey: CharacteristicKey): ConfigTransport {
+    if (!this.transport) {
+      throw new BLEConnectionError('disconnected');
+    }
+    if (!this.availableCharacteristics.has(charKey)) {
+      throw new BLEOperationError('characteristic-not-found', { cause: `Characteristic ${charKey} not found` });
+    }
+    return this.transport;
+  }
+
+  /**
+   * Write without waiting for the operation queue (emergency stop only)
+   */
+  private async writeValueNow(charKey: CharacteristicKey, bytes: Uint8Array): Promise<void> {
+    const transport = this.requireCharacteristic(charKey);
+    await this.operationQueue.runNow({
+      label: `write ${charKey}`,
+      run: () => this.recordOperation('write', charKey, () => transport.write(charKey, bytes), bytes),
+    }).catch(error => {
+      throw toBLEError(error);
+    });
+  }
+
+  /**
+   * Read every preset field in one GATT op through BULK_CONFIG
+   * @returns null without BULK_CONFIG or when the read fails (callers then read one by one);
+   *   a payload the app can't decode turns the fast path off until the next connection
+   */
+  private async readBulkConfig(priority: GattOperationPriority = 'background'): Promise<PresetConfig | null> {
+    const channel = this.bulkConfigChannel;
+    if (!channel) return null;
+    try {
+      const view = await this.operationQueue.enqueue({
+        label: 'read BULK_CONFIG',
+        priority,
+        run: () => this.recordOperation('read', 'BULK_CONFIG', () => channel.read('BULK_CONFIG')),
+      });
+      return decodeBulkConfig(view);
+    } catch (error) {
+      if (error instanceof BLEOperationError && error.code === 'invalid-value') {
+        this.bulkConfigChannel = null;
+      }
+      console.warn('Bulk config read failed, reading characteristics one by one:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write every preset field in one GATT op through BULK_CONFIG
+   * @returns false when the write fails (callers then write one by one)
+   */
+  private async writeBulkConfig(config: PresetConfig): Promise<boolean> {
+    const channel = this.bulkConfigChannel;
+    if (!channel) return false;
+    const bytes = encodeBulkConfig(config);
+    try {
+      await this.operationQueue.enqueue({
+        label: 'write BULK_CONFIG',
+        priority: 'user',
+        run: () => this.recordOperation('write', 'BULK_CONFIG', () => channel.write('BULK_CONFIG', bytes), bytes),
+        coalesceKey: 'write:BULK_CONFIG',
+      });
+      return true;
+    } catch (error) {
+      console.warn('Bulk config write failed, writing characteristics one by one:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Run one GATT read/write attempt and add it to the traffic log
+   * @param sentBytes Value being written (reads log the value received instead)
+   */
+  private async recordOperation<T>(
+    type: 'read' | 'write',
+    charKey: string,
+    operation: () => Promise<T>,
+    sentBytes?: Uint8Array
+  ): Promise<T> {
+    const timestamp = Date.now();
+    const start = performance.now();
+    try {
+      const result = await operation();
+      this.lastActivityAt = Date.now();
+      const data = sentBytes ?? (result as DataView);
+      this.trafficRecorder.record({
+        timestamp,
+        type,
+        key: charKey,
+        bytes: toByteArray(data),
+        value: this.decodeForLog(charKey, data),
+        durationMs: performance.now() - start,
+      });
+      return result;
+    } catch (error) {
+      this.trafficRecorder.record({
+        timestamp,
+        type,
+        key: charKey,
+        bytes: sentBytes ? toByteArray(sentBytes) : null,
+        value: sentBytes ? this.decodeForLog(charKey, sentBytes) : undefined,
+        durationMs: performance.now() - start,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
   }
 
-  // Read operations
-  async readUint8(charKey: string): Promise<number> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Add a received notification to the traffic log
+   */
+  private recordNotification(key: string, view: DataView): void {
+    this.lastActivityAt = Date.now();
+    this.trafficRecorder.record({
+      timestamp: Date.now(),
+      type: 'notify',
+      key,
+      bytes: toByteArray(view),
+      value: this.decodeForLog(key, view),
+      durationMs: null,
+    });
+  }
 
-    const value = await char.readValue();
-    return value.getUint8(0);
+  /**
+   * Add a connect/disconnect to the traffic log
+   */
+  private async recordLinkEvent(
+    type: 'connect' | 'disconnect',
+    operation: () => Promise<void>,
+    detail: string
+  ): Promise<void> {
+    const timestamp = Date.now();
+    const start = performance.now();
+    let error: string | undefined;
+    try {
+      await operation();
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      throw err;
+    } finally {
+      this.trafficRecorder.record({
+        timestamp,
+        type,
+        key: null,
+        bytes: null,
+        value: detail,
+        durationMs: performance.now() - start,
+        error,
+      });
+    }
   }
 
-  async readUint16(charKey: string): Promise<number> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Decode a value for the traffic log; malformed values and GATT explorer traffic (keyed by UUID)
+   * are logged as raw bytes only
+   */
+  private decodeForLog(key: string, data: DataView | Uint8Array): unknown {
+    try {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+      if (key === 'BULK_CONFIG') return decodeBulkConfig(view);
+      if (key in CHARACTERISTIC_SCHEMA) return decodeCharacteristicValue(key as CharacteristicKey, view);
+      if (key in BILATERAL_CHARACTERISTIC_SPECS) {
+        const { wireType } = BILATERAL_CHARACTERISTIC_SPECS[key as BilateralCharacteristicKey];
+        return wireType === 'uint16' ? view.getUint16(0, true) : view.getUint8(0);
+      }
+      if (key in DEVICE_INFORMATION_CHARACTERISTICS) return new TextDecoder().decode(view);
+      return undefined;
+    } catch {
+      return undefined;
+    }
+  }
 
-    const value = await char.readValue();
-    return value.getUint16(0, true);
+  /**
+   * BLE traffic log (reads, writes, notifications, connects and disconnects)
+   */
+  getTrafficRecorder(): TrafficRecorder {
+    return this.trafficRecorder;
   }
 
-  async readUint32(charKey: string): Promise<number> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Every service and characteristic the transport can reach, for the advanced-mode GATT explorer
+   * Discovery runs directly; reads, writes and notification changes go through the operation queue
+   */
+  async exploreGatt(): Promise<RawGattService[]> {
+    const transport = this.transport;
+    if (!transport || this.connectionPhase !== 'ready') {
+      throw new BLEConnectionError('disconnected');
+    }
+    if (!transport.exploreServices) {
+      throw new BLEAvailabilityError('not-supported', {
+        message: "This connection can't be explored (raw GATT access needs a Web Bluetooth device).",
+      });
+    }
 
-    const value = await char.readValue();
-    return value.getUint32(0, true);
+    try {
+      const services = await transport.exploreServices();
+      return services.map(service => ({
+        uuid: service.uuid,
+        characteristics: service.characteristics.map(char => this.queueRawCharacteristic(char)),
+      }));
+    } catch (error) {
+      throw toBLEError(error);
+    }
   }
 
-  async readRGB(charKey: string): Promise<[number, number, number]> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  private queueRawCharacteristic(char: RawGattCharacteristic): RawGattCharacteristic {
+    const enqueue = <T>(label: string, run: () => Promise<T>, coalesceKey?: string): Promise<T> =>
+      this.operationQueue.enqueue({ label: `${label} ${char.uuid}`, priority: 'user', run, coalesceKey })
+        .catch(error => {
+          throw toBLEError(error);
+        });
 
-    const value = await char.readValue();
-    return [value.getUint8(0), value.getUint8(1), value.getUint8(2)];
+    return {
+      uuid: char.uuid,
+      properties: char.properties,
+      descriptorUuids: char.descriptorUuids,
+      userDescription: char.userDescription,
+      read: () => enqueue('raw read', () => this.recordOperation('read', char.uuid, () => char.read())),
+      write: (value, withResponse) => enqueue(
+        'raw write',
+        () => this.recordOperation('write', char.uuid, () => char.write(value, withResponse), value),
+        `raw-write:${char.uuid}`
+      ),
+      startNotifications: (listener) => enqueue('raw notify', () => char.startNotifications((view) => {
+        this.recordNotification(char.uuid, view);
+        listener(view);
+      })),
+      stopNotifications: () => enqueue('raw stop notify', () => char.stopNotifications()),
+    };
+  }
+
+  /**
+   * Read and decode a characteristic using its schema wire format
+   */
+  async readCharacteristic<K extends CharacteristicKey>(
+    charKey: K,
+    priority: GattOperationPriority = 'background'
+  ): Promise<CharacteristicValue<K>> {
+    const value = await this.readValue(charKey, priority);
+    return decodeCharacteristicValue(charKey, value);
   }
 
-  async readString(charKey: string): Promise<string> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Validate against the schema range, encode and write a characteristic
+   * Rejects read-only characteristics and out-of-range values before reaching the device
+   */
+  async writeCharacteristic<K extends CharacteristicKey>(
+    charKey: K,
+    value: CharacteristicValue<K>
+  ): Promise<void> {
+    this.assertWritable(charKey, value);
+    await this.writeValue(charKey, encodeCharacteristicValue(charKey, value));
+    this.updateCachedValue(charKey, value);
+  }
 
-    const value = await char.readValue();
-    const decoder = new TextDecoder('utf-8');
-    return decoder.decode(value.buffer).replace(/\0/g, '').trim();
+  private assertWritable<K extends CharacteristicKey>(charKey: K, value: CharacteristicValue<K>): void {
+    if (CHARACTERISTIC_SCHEMA[charKey].access !== 'read-write') {
+      throw new BLEOperationError('invalid-value', { message: `Characteristic ${charKey} is read-only` });
+    }
+    const validationError = validateCharacteristicValue(charKey, value);
+    if (validationError) {
+      throw new BLEOperationError('invalid-value', { message: validationError });
+    }
   }
 
-  // Write operations
-  async writeUint8(charKey: string, value: number): Promise<void> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Write only the fields that differ from the cached config (e.g. loading a preset)
+   * A field whose cached value never came from the device (failed or unsupported read) is
+   * always written, even if the default it holds matches.
+   * Every value is validated before the first write. Safe order: intensities and custom
+   * frequency/duty before MODE, LED color/brightness before LED_ENABLE (turning the LED
+   * off goes first instead). The cache and 'config' subscribers are updated once at the
+   * end, also after a failed write, with whatever reached the device.
+   * With BULK_CONFIG, two or more changes go out as one packed write of the cached config
+   * with the changes merged in (the firmware applies it at once, so order doesn't matter).
+   * That needs every other preset field to be known from the device this session and the
+   * merged config to pass validation; otherwise, or if the packed write fails, the changes
+   * are written one by one as above.
+   * @param onProgress Called after each write (for each changed field after a packed write)
+   */
+  async writeConfig(
+    partial: Partial<PresetConfig>,
+    onProgress?: (progress: WriteConfigProgress) => void
+  ): Promise<WriteConfigResult> {
+    const result: WriteConfigResult = { written: [], unchanged: [], unsupported: [] };
+    const changes: Array<{ key: PresetCharacteristicKey; value: CharacteristicValue<PresetCharacteristicKey> }> = [];
+
+    for (const key of PRESET_CHARACTERISTIC_KEYS) {
+      const value = partial[CHARACTERISTIC_SCHEMA[key].field] as CharacteristicValue<PresetCharacteristicKey> | undefined;
+      if (value === undefined) continue;
+
+      if (!this.availableCharacteristics.has(key)) {
+        result.unsupported.push(key);
+      } else if (
+        this.cachedConfig &&
+        this.confirmedFields.has(key) &&
+        sameValue(this.cachedConfig[CHARACTERISTIC_SCHEMA[key].field], value)
+      ) {
+        result.unchanged.push(key);
+      } else {
+        this.assertWritable(key, value);
+        changes.push({ key, value });
+      }
+    }
+
+    const phase = ({ key, value }: (typeof changes)[number]): number => {
+      if (key === 'LED_ENABLE') return value ? 2 : -1;
+      if (key === 'MODE') return 1;
+      return 0;
+    };
+    changes.sort((a, b) => phase(a) - phase(b));
+
+    const merged = changes.length > 1 ? this.mergeForBulkWrite(changes) : null;
+    if (merged && await this.writeBulkConfig(merged)) {
+      for (const { key } of changes) {
+        this.confirmedFields.add(key);
+        result.written.push(key);
+        onProgress?.({ completed: result.written.length, total: changes.length, key });
+      }
+      if (this.cachedConfig) {
+        this.cachedConfig = merged;
+        this.events.emit('config', merged);
+      }
+      return result;
+    }
+
+    let config: DeviceConfig = { ...(this.cachedConfig ?? DEFAULT_DEVICE_CONFIG) };
+    try {
+      for (const { key, value } of changes) {
+        await this.writeValue(key, encodeCharacteristicValue(key, value));
+        config = withCharacteristicValue(config, key, value);
+        this.confirmedFields.add(key);
+        result.written.push(key);
+        onProgress?.({ completed: result.written.length, total: changes.length, key });
+      }
+    } finally {
+      if (this.cachedConfig && result.written.length > 0) {
+        this.cachedConfig = config;
+        this.events.emit('config', config);
+      }
+    }
+
+    return result;
+  }
 
-    const buffer = new Uint8Array([value]);
-    await char.writeValue(buffer);
+  /**
+   * The cached config with the changes merged in, or null when it can't go out as one BULK_CONFIG
+   * write: a field the app never read from the device (a default, or a failed read) or an
+   * emergency stop zero would otherwise overwrite the device's real value
+   */
+  private mergeForBulkWrite(
+    changes: Array<{ key: PresetCharacteristicKey; value: CharacteristicValue<PresetCharacteristicKey> }>
+  ): DeviceConfig | null {
+    if (!this.cachedConfig || !this.bulkConfigChannel) return null;
+
+    const merged = changes.reduce(
+      (config, { key, value }) => withCharacteristicValue(config, key, value),
+      this.cachedConfig
+    );
+    const changed = new Set(changes.map(change => change.key));
+    for (const key of PRESET_CHARACTERISTIC_KEYS) {
+      if (!changed.has(key) && !this.confirmedFields.has(key)) return null;
+      const value = merged[CHARACTERISTIC_SCHEMA[key].field] as CharacteristicValue<PresetCharacteristicKey>;
+      if (validateCharacteristicValue(key, value)) return null;
+    }
+    return merged;
   }
 
-  async writeUint16(charKey: string, value: number): Promise<void> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Apply a config as a transaction (e.g. loading a preset)
+   * Snapshots the cached config, writes the differences with writeConfig(), and on a
+   * failed write tries to write the snapshot back. Every requested field is then read
+   * back and reported, so the caller can tell exactly what the device ended up with.
+   * Only throws when not connected; write failures are reported in the result.
+   */
+  async applyConfig(
+    partial: Partial<PresetConfig>,
+    onProgress?: (progress: WriteConfigProgress) => void
+  ): Promise<ApplyConfigResult> {
+    if (!this.transport) {
+      throw new BLEConnectionError('disconnected');
+    }
+    const snapshot = this.cachedConfig ? { ...this.cachedConfig } : null;
+
+    let error: BLEError | undefined;
+    let rolledBack = false;
+    try {
+      await this.writeConfig(partial, onProgress);
+    } catch (writeError) {
+      error = toBLEError(writeError);
+      console.error('Config apply failed, restoring previous values:', writeError);
+      if (snapshot) {
+        rolledBack = true;
+        try {
+          // The cache now holds what was written, so this writes back exactly those fields
+          await this.writeConfig(presetFieldsOf(snapshot, partial));
+        } catch (rollbackError) {
+          console.error('Rollback failed:', rollbackError);
+        }
+      }
+    }
+
+    // Read back every requested field and compare with what was asked for
+    const readBack = await this.readBulkConfig('user');
+    const fields: ConfigFieldReport[] = [];
+    let config: DeviceConfig = { ...(this.cachedConfig ?? DEFAULT_DEVICE_CONFIG) };
+    for (const key of PRESET_CHARACTERISTIC_KEYS) {
+      const field = CHARACTERISTIC_SCHEMA[key].field;
+      const requested = partial[field] as CharacteristicValue<PresetCharacteristicKey> | undefined;
+      if (requested === undefined) continue;
+
+      const previous = snapshot ? snapshot[field] as CharacteristicValue<PresetCharacteristicKey> : null;
+      if (!this.availableCharacteristics.has(key)) {
+        fields.push({ key, outcome: 'unsupported', requested, previous, actual: null });
+        continue;
+      }
+
+      let actual = readBack ? readBack[field] as CharacteristicValue<PresetCharacteristicKey> : null;
+      if (actual === null) {
+        try {
+          actual = await this.readCharacteristic(key, 'user');
+        } catch (readError) {
+          console.warn(`Read-back of ${key} failed:`, readError);
+        }
+      }
+      if (actual !== null) {
+        config = withCharacteristicValue(config, key, actual);
+        this.confirmedFields.add(key);
+      }
+
+      let outcome: ConfigFieldOutcome;
+      if (actual === null) {
+        outcome = 'unknown';
+      } else if (sameValue(actual, requested)) {
+        outcome = previous !== null && sameValue(previous, requested) ? 'unchanged' : 'applied';
+      } else if (error && previous !== null && sameValue(actual, previous)) {
+        outcome = 'restored';
+      } else {
+        outcome = 'mismatch';
+      }
+      fields.push({ key, outcome, requested, previous, actual });
+    }
+
+    // The read-back is the truth; publish it once
+    if (this.cachedConfig) {
+      this.cachedConfig = config;
+      this.events.emit('config', config);
+    }
+
+    const success = !error && fields.every(report => ['applied', 'unchanged', 'unsupported'].includes(report.outcome));
+    return { success, rolledBack, error, fields };
+  }
 
-    const buffer = new Uint8Array(2);
-    new DataView(buffer.buffer).setUint16(0, value, true);
-    await char.writeValue(buffer);
+  /**
+   * Keep the cached config in step with successful writes
+   */
+  private updateCachedValue<K extends CharacteristicKey>(charKey: K, value: CharacteristicValue<K>): void {
+    if (this.cachedConfig) {
+      this.cachedConfig = withCharacteristicValue(this.cachedConfig, charKey, value);
+      this.confirmedFields.add(charKey);
+    }
   }
 
-  async writeUint32(charKey: string, value: number): Promise<void> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Stop motors and LED immediately (app-level counterpart of the AD011 button-hold stop)
+   * Waiting operations are dropped and the stop writes bypass the queue, so the stop isn't stuck
+   * behind slider writes, config reads or an operation still running.
+   * Uses AD030 Emergency Shutdown when available; otherwise writes intensity 0 to every
+   * mode and turns the LED off, keeping the previous config for restoreAfterEmergencyStop()
+   */
+  async emergencyStop(): Promise<EmergencyStopResult> {
+    this.operationQueue.clear(new Error('Cancelled by emergency stop'));
+
+    if (bilateralControlService.isCharacteristicSupported('EMERGENCY_SHUTDOWN')) {
+      // Fire-and-forget: the device coasts the motors and may drop the link right away
+      bilateralControlService.emergencyShutdown().catch(error => {
+        this.reportError({
+          operation: 'emergency shutdown',
+          message: 'Emergency shutdown could not be sent. Hold the device button for 5 seconds.',
+          severity: 'error',
+          cause: error,
+        });
+      });
+      return { method: 'shutdown', failed: [], restorable: false };
+    }
+
+    // Keep the config from before the first press (a second press must not snapshot zeros)
+    if (!this.emergencyStopSnapshot && this.cachedConfig) {
+      this.emergencyStopSnapshot = { ...this.cachedConfig };
+    }
+
+    // Running mode first, then the LED, then the other modes
+    const currentIntensityKey = `MODE_${this.cachedConfig?.mode ?? MotorMode.MODE_05HZ_25}_INTENSITY` as const;
+    const stopKeys: EmergencyStopKey[] = [
+      currentIntensityKey,
+      'LED_ENABLE' as const,
+      ...EMERGENCY_STOP_INTENSITY_KEYS.filter(key => key !== currentIntensityKey),
+    ].filter(key => this.availableCharacteristics.has(key));
+
+    // 0 is below most intensity ranges, so these writes bypass schema validation. They skip the
+    // queue (an operation still running could hold it for seconds) but go out one at a time.
+    const failed: CharacteristicKey[] = [];
+    let config: DeviceConfig = { ...(this.cachedConfig ?? DEFAULT_DEVICE_CONFIG) };
+    for (const charKey of stopKeys) {
+      const bytes = charKey === 'LED_ENABLE'
+        ? encodeCharacteristicValue(charKey, false)
+        : encodeCharacteristicValue(charKey, 0);
+      try {
+        await this.writeValueNow(charKey, bytes);
+      } catch (error) {
+        console.error(`Emergency stop: failed to write ${charKey}:`, error);
+        failed.push(charKey);
+        continue;
+      }
+      config = charKey === 'LED_ENABLE'
+        ? withCharacteristicValue(config, charKey, false)
+        : withCharacteristicValue(config, charKey, 0);
+      // An intensity of 0 is out of range; never send it back in a packed write
+      if (charKey !== 'LED_ENABLE') this.confirmedFields.delete(charKey);
+    }
+
+    if (this.cachedConfig) {
+      this.cachedConfig = config;
+      this.events.emit('config', config);
+    }
+
+    return { method: 'fallback', failed, restorable: this.emergencyStopSnapshot !== null };
+  }
 
-    const buffer = new Uint8Array(4);
-    new DataView(buffer.buffer).setUint32(0, value, true);
-    await char.writeValue(buffer);
+  /**
+   * Whether restoreAfterEmergencyStop() has a previous config to write back
+   */
+  canRestoreAfterEmergencyStop(): boolean {
+    return this.emergencyStopSnapshot !== null;
   }
 
-  async writeRGB(charKey: string, rgb: [number, number, number]): Promise<void> {
-    const char = this.characteristics.get(charKey);
-    if (!char) throw new Error(`Characteristic ${charKey} not found`);
+  /**
+   * Write back the intensities and LED state from before the emergency stop fallback
+   * Intensities go first so the LED comes back together with the motors
+   */
+  async restoreAfterEmergencyStop(): Promise<void> {
+    const snapshot = this.emergencyStopSnapshot;
+    if (!snapshot) {
+      throw new Error('Nothing to restore');
+    }
+
+    for (const charKey of EMERGENCY_STOP_INTENSITY_KEYS) {
+      if (this.availableCharacteristics.has(charKey)) {
+        await this.writeCharacteristic(charKey, snapshot[CHARACTERISTIC_SCHEMA[charKey].field]);
+      }
+    }
+    if (this.availableCharacteristics.has('LED_ENABLE')) {
+      await this.writeCharacteristic('LED_ENABLE', snapshot.ledEnable);
+    }
 
-    const buffer = new Uint8Array(rgb);
-    await char.writeValue(buffer);
+    this.emergencyStopSnapshot = null;
+    if (this.cachedConfig) {
+      const config = this.cachedConfig;
+      this.events.emit('config', config);
+    }
   }
 
   // High-level configuration methods
-  async readConfig(): Promise<DeviceConfig> {
-    const config = {
-      mode: await this.readUint8('MODE') as MotorMode,
-      customFrequency: await this.readUint16('CUSTOM_FREQUENCY'),
-      customDutyCycle: await this.readUint8('CUSTOM_DUTY_CYCLE'),
-      // Per-mode intensity settings
-      mode0Intensity: await this.readUint8('MODE_0_INTENSITY'),
-      mode1Intensity: await this.readUint8('MODE_1_INTENSITY'),
-      mode2Intensity: await this.readUint8('MODE_2_INTENSITY'),
-      mode3Intensity: await this.readUint8('MODE_3_INTENSITY'),
-      mode4Intensity: await this.readUint8('MODE_4_INTENSITY'),
-      ledEnable: (await this.readUint8('LED_ENABLE')) === 1,
-      ledColorMode: await this.readUint8('LED_COLOR_MODE'),
-      ledPaletteIndex: await this.readUint8('LED_PALETTE_INDEX'),
-      ledCustomRGB: await this.readRGB('LED_CUSTOM_RGB'),
-      ledBrightness: await this.readUint8('LED_BRIGHTNESS'),
-      sessionDuration: await this.readUint32('SESSION_DURATION'),
-      sessionTime: await this.readUint32('SESSION_TIME'),
-      batteryLevel: await this.readUint8('BATTERY_LEVEL'),
-      clientBatteryLevel: await this.readUint8('CLIENT_BATTERY'),
-      // Firmware versions (graceful fallback if not supported by older firmware)
-      localFirmwareVersion: await this.readFirmwareVersion('LOCAL_FIRMWARE_VERSION'),
-      peerFirmwareVersion: await this.readFirmwareVersion('PEER_FIRMWARE_VERSION'),
-    };
+
+  /**
+   * Read the full device configuration, continuing past individual failures
+   * Unsupported or failed fields keep their cached value (or a default) and are
+   * reported in fieldStatus; throws only if no field could be read at all
+   * With BULK_CONFIG, the preset fields come from one packed read and only the status
+   * fields (session time, batteries, firmware versions) are read individually.
+   * @param signal Stops before the next read, and before the cache is touched, once aborted
+   */
+  async readConfig(signal?: AbortSignal): Promise<ConfigReadResult> {
+    const previous = this.cachedConfig ?? DEFAULT_DEVICE_CONFIG;
+    const fieldStatus = {} as Record<keyof DeviceConfig, ConfigFieldStatus>;
+    const errors: Partial<Record<keyof DeviceConfig, string>> = {};
+
+    let config: DeviceConfig = { ...previous };
+    const confirmed = new Set<CharacteristicKey>();
+    const bulk = await this.readBulkConfig();
+
+    for (const charKey of CHARACTERISTIC_KEYS) {
+      const field = CHARACTERISTIC_SCHEMA[charKey].field;
+      const bulkValue = bulk?.[field as keyof PresetConfig];
+      if (bulkValue !== undefined) {
+        config = withCharacteristicValue(config, charKey, bulkValue);
+        fieldStatus[field] = 'read';
+        confirmed.add(charKey);
+        continue;
+      }
+      if (!this.isCharacteristicSupported(charKey)) {
+        fieldStatus[field] = 'unsupported';
+        continue;
+      }
+      signal?.throwIfAborted();
+      try {
+        config = withCharacteristicValue(config, charKey, await this.readCharacteristic(charKey));
+        fieldStatus[field] = 'read';
+        confirmed.add(charKey);
+      } catch (error) {
+        console.warn(`Failed to read ${charKey}:`, error);
+        fieldStatus[field] = 'failed';
+        errors[field] = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    signal?.throwIfAborted();
+    if (!Object.values(fieldStatus).includes('read')) {
+      throw new Error('Failed to read any configuration from device');
+    }
+
     // Update cache
     this.cachedConfig = config;
+    this.confirmedFields = confirmed;
 
     // Notify all config change listeners
-    this.configChangeListeners.forEach(listener => listener(config));
+    this.events.emit('config', config);
 
-    return config;
+    return { config, fieldStatus, errors };
   }
 
   /**
    * Read firmware version string with graceful fallback for older firmware
    */
-  private async readFirmwareVersion(charKey: string): Promise<string> {
+  private async readFirmwareVersion(
+    charKey: 'LOCAL_FIRMWARE_VERSION' | 'PEER_FIRMWARE_VERSION'
+  ): Promise<string> {
     try {
-      return await this.readString(charKey);
+      return await this.readCharacteristic(charKey);
     } catch (error) {
       console.warn(`Firmware version characteristic ${charKey} not available:`, error);
       return '';
@@ -577,45 +1988,59 @@ export class BLEConfigService {
     return this.cachedConfig;
   }
 
+  /**
+   * Parsed local firmware version (null if not connected, unversioned or unparseable)
+   */
+  getFirmwareVersion(): FirmwareVersion | null {
+    return this.firmwareVersion;
+  }
+
+  /**
+   * Features supported by the connected firmware (all enabled when not connected)
+   */
+  getFirmwareCapabilities(): FirmwareCapabilities {
+    return this.firmwareCapabilities;
+  }
+
   async setMotorMode(mode: MotorMode): Promise<void> {
-    await this.writeUint8('MODE', mode);
+    await this.writeCharacteristic('MODE', mode);
   }
 
   async setCustomFrequency(freq: number): Promise<void> {
-    await this.writeUint16('CUSTOM_FREQUENCY', freq);
+    await this.writeCharacteristic('CUSTOM_FREQUENCY', freq);
   }
 
   async setCustomDutyCycle(duty: number): Promise<void> {
-    await this.writeUint8('CUSTOM_DUTY_CYCLE', duty);
+    await this.writeCharacteristic('CUSTOM_DUTY_CYCLE', duty);
   }
 
   async setModeIntensity(mode: MotorMode, intensity: number): Promise<void> {
-    const charKey = `MODE_${mode}_INTENSITY`;
-    await this.writeUint8(charKey, intensity);
+    const charKey = `MODE_${mode}_INTENSITY` as const;
+    await this.writeCharacteristic(charKey, intensity);
   }
 
   async setLEDEnable(enable: boolean): Promise<void> {
-    await this.writeUint8('LED_ENABLE', enable ? 1 : 0);
+    await this.writeCharacteristic('LED_ENABLE', enable);
   }
 
   async setLEDColorMode(mode: number): Promise<void> {
-    await this.writeUint8('LED_COLOR_MODE', mode);
+    await this.writeCharacteristic('LED_COLOR_MODE', mode);
   }
 
   async setLEDPaletteIndex(index: number): Promise<void> {
-    await this.writeUint8('LED_PALETTE_INDEX', index);
+    await this.writeCharacteristic('LED_PALETTE_INDEX', index);
   }
 
   async setLEDCustomRGB(rgb: [number, number, number]): Promise<void> {
-    await this.writeRGB('LED_CUSTOM_RGB', rgb);
+    await this.writeCharacteristic('LED_CUSTOM_RGB', rgb);
   }
 
   async setLEDBrightness(brightness: number): Promise<void> {
-    await this.writeUint8('LED_BRIGHTNESS', brightness);
+    await this.writeCharacteristic('LED_BRIGHTNESS', brightness);
   }
 
   async setSessionDuration(duration: number): Promise<void> {
-    await this.writeUint32('SESSION_DURATION', duration);
+    await this.writeCharacteristic('SESSION_DURATION', duration);
   }
 
   /**
@@ -623,7 +2048,7 @@ export class BLEConfigService {
    * @returns Current elapsed session time in seconds
    */
   async readSessionTime(): Promise<number> {
-    return await this.readUint32('SESSION_TIME');
+    return await this.readCharacteristic('SESSION_TIME');
   }
 
   /**
@@ -631,7 +2056,7 @@ export class BLEConfigService {
    * @returns Battery level (0-100)
    */
   async readBatteryLevel(): Promise<number> {
-    return await this.readUint8('BATTERY_LEVEL');
+    return await this.readCharacteristic('BATTERY_LEVEL');
   }
 
   /**
@@ -640,7 +2065,7 @@ export class BLEConfigService {
    * @returns Client battery level (0-100)
    */
   async readClientBatteryLevel(): Promise<number> {
-    return await this.readUint8('CLIENT_BATTERY');
+    return await this.readCharacteristic('CLIENT_BATTERY');
   }
 
   /**
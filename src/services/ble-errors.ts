@@ -0,0 +1,313 @@
+/**
+ * BLE Errors
+ * Typed errors with stable codes, a plain-language message and steps to fix the problem
+ *
+ * Web Bluetooth reports failures as DOMExceptions whose messages are technical and differ
+ * between browsers ("GATT Server is disconnected. Cannot perform GATT operations...").
+ * toBLEError() maps them (and the app's own GATT errors) to one of the codes below so the
+ * UI can decide by code and show something the user can act on.
+ */
+
+import { GattTimeoutError } from './gatt-operation-queue';
+
+export type BLEErrorCode =
+  // Availability: the browser or platform can't do Bluetooth right now
+  | 'bluetooth-unavailable'
+  | 'permission-denied'
+  | 'not-supported'
+  // Device selection
+  | 'device-not-found'
+  | 'device-forgotten'
+  // Connection
+  | 'cancelled'
+  | 'connection-failed'
+  | 'disconnected'
+  | 'already-connected'
+  | 'other-tab'
+  | 'connect-timeout'
+  // GATT operations
+  | 'timeout'
+  | 'device-busy'
+  | 'service-not-found'
+  | 'characteristic-not-found'
+  | 'invalid-value'
+  | 'operation-failed';
+
+interface BLEErrorInfo {
+  message: string;
+  remediation: readonly string[];
+}
+
+const BLE_ERROR_INFO: Record<BLEErrorCode, BLEErrorInfo> = {
+  'bluetooth-unavailable': {
+    message: 'Bluetooth is turned off or not available on this device.',
+    remediation: [
+      'Turn on Bluetooth.',
+      'On Android, also turn on Location (Android needs it for Bluetooth scanning).',
+    ],
+  },
+  'permission-denied': {
+    message: 'The browser did not allow access to Bluetooth.',
+    remediation: [
+      "Allow Bluetooth for this site in the browser's site settings.",
+      'Make sure the app is opened over HTTPS.',
+      'On Android, allow Nearby devices (or Location) for the browser in the app permissions.',
+    ],
+  },
+  'not-supported': {
+    message: "This browser doesn't support the Bluetooth feature the app needs.",
+    remediation: [
+      'Use Chrome, Edge or Opera on Android, Windows, macOS, Linux or ChromeOS.',
+      'On iOS, use a Web Bluetooth browser such as Bluefy.',
+    ],
+  },
+  'device-not-found': {
+    message: 'No MLEHaptics device was found.',
+    remediation: [
+      'Make sure the device is switched on and close by.',
+      'On Android, turn on Location (needed for Bluetooth scanning).',
+      'Try Advanced Scan Options and show all devices.',
+    ],
+  },
+  'device-forgotten': {
+    message: 'This device is no longer remembered by the browser.',
+    remediation: ['Use "Connect Device" to pick it again.'],
+  },
+  'cancelled': {
+    message: 'Connection cancelled.',
+    remediation: [],
+  },
+  'connection-failed': {
+    message: 'Could not connect to the device.',
+    remediation: [
+      'The device may be connected to another phone or tablet. Disconnect it there first.',
+      'Move closer to the device and try again.',
+      'Turn the device off and on again.',
+    ],
+  },
+  'disconnected': {
+    message: 'The device disconnected.',
+    remediation: [
+      'Check that the device is switched on and in range.',
+      'Connect again.',
+    ],
+  },
+  'already-connected': {
+    message: 'A device is already connected or a connection is in progress.',
+    remediation: ['Disconnect first, or wait for the current connection attempt to finish.'],
+  },
+  'other-tab': {
+    message: 'The device is controlled from another tab or window of this app.',
+    remediation: ['Switch to that tab, or disconnect there first.'],
+  },
+  'connect-timeout': {
+    message: 'Connecting took too long and was stopped.',
+    remediation: [
+      'Move closer to the device and try again.',
+      'Turn the device off and on again.',
+      'On Android, turning Bluetooth off and on again often helps.',
+      'Allow more time under Settings → Bluetooth Settings if connecting is just slow.',
+    ],
+  },
+  'timeout': {
+    message: 'The device did not respond in time.',
+    remediation: [
+      'Move closer to the device.',
+      'If this keeps happening, disconnect and connect again.',
+    ],
+  },
+  'device-busy': {
+    message: 'The device is busy with another Bluetooth operation.',
+    remediation: ['Wait a moment and try again.'],
+  },
+  'service-not-found': {
+    message: "The selected device doesn't provide the MLEHaptics configuration service.",
+    remediation: [
+      'Make sure you picked an MLEHaptics device.',
+      'Update the device firmware.',
+    ],
+  },
+  'characteristic-not-found': {
+    message: "This device's firmware doesn't support this setting.",
+    remediation: ['Update the device firmware.'],
+  },
+  'invalid-value': {
+    message: 'The value is not valid for this setting.',
+    remediation: [],
+  },
+  'operation-failed': {
+    message: 'A Bluetooth operation failed.',
+    remediation: [
+      'Try again.',
+      'If it keeps failing, disconnect and connect again.',
+    ],
+  },
+};
+
+interface BLEErrorOptions {
+  message?: string; // Replaces the default message for the code (e.g. a validation message)
+  cause?: unknown; // Original error; its message is kept as detail
+}
+
+/**
+ * Base class: code, plain-language message, remediation steps and the technical detail
+ */
+export class BLEError extends Error {
+  readonly code: BLEErrorCode;
+  readonly remediation: readonly string[];
+  readonly detail?: string; // Original browser/device message, for logs and the traffic log
+  readonly cause?: unknown;
+
+  constructor(code: BLEErrorCode, options: BLEErrorOptions = {}) {
+    super(options.message ?? BLE_ERROR_INFO[code].message);
+    this.name = 'BLEError';
+    this.code = code;
+    this.remediation = BLE_ERROR_INFO[code].remediation;
+    this.cause = options.cause;
+    if (options.cause !== undefined) {
+      this.detail = options.cause instanceof Error ? options.cause.message : String(options.cause);
+    }
+  }
+}
+
+/**
+ * Bluetooth itself can't be used (off, blocked, unsupported browser)
+ */
+export class BLEAvailabilityError extends BLEError {
+  declare readonly code: 'bluetooth-unavailable' | 'permission-denied' | 'not-supported';
+
+  constructor(code: BLEAvailabilityError['code'], options?: BLEErrorOptions) {
+    super(code, options);
+    this.name = 'BLEAvailabilityError';
+  }
+}
+
+/**
+ * No device to connect to
+ */
+export class BLEDeviceNotFoundError extends BLEError {
+  declare readonly code: 'device-not-found' | 'device-forgotten';
+
+  constructor(code: BLEDeviceNotFoundError['code'], options?: BLEErrorOptions) {
+    super(code, options);
+    this.name = 'BLEDeviceNotFoundError';
+  }
+}
+
+/**
+ * Connecting failed, was cancelled, or the link dropped
+ */
+export class BLEConnectionError extends BLEError {
+  declare readonly code:
+    | 'cancelled'
+    | 'connection-failed'
+    | 'disconnected'
+    | 'already-connected'
+    | 'other-tab'
+    | 'connect-timeout';
+
+  constructor(code: BLEConnectionError['code'], options?: BLEErrorOptions) {
+    super(code, options);
+    this.name = 'BLEConnectionError';
+  }
+}
+
+/**
+ * A read, write or notification start failed on a connected device
+ */
+export class BLEOperationError extends BLEError {
+  declare readonly code:
+    | 'timeout'
+    | 'device-busy'
+    | 'service-not-found'
+    | 'characteristic-not-found'
+    | 'invalid-value'
+    | 'operation-failed';
+
+  constructor(code: BLEOperationError['code'], options?: BLEErrorOptions) {
+    super(code, options);
+    this.name = 'BLEOperationError';
+  }
+}
+
+/**
+ * Create the BLEError subclass for a code
+ */
+export function createBLEError(code: BLEErrorCode, options?: BLEErrorOptions): BLEError {
+  switch (code) {
+    case 'bluetooth-unavailable':
+    case 'permission-denied':
+    case 'not-supported':
+      return new BLEAvailabilityError(code, options);
+    case 'device-not-found':
+    case 'device-forgotten':
+      return new BLEDeviceNotFoundError(code, options);
+    case 'cancelled':
+    case 'connection-failed':
+    case 'disconnected':
+    case 'already-connected':
+    case 'other-tab':
+    case 'connect-timeout':
+      return new BLEConnectionError(code, options);
+    default:
+      return new BLEOperationError(code, options);
+  }
+}
+
+/**
+ * Work out the code for a Web Bluetooth DOMException or an app error
+ * @param during 'connect' while setting up a connection (NetworkError then means the link
+ *   couldn't be made rather than that it dropped)
+ */
+function classify(error: unknown, during: 'connect' | 'operation'): BLEErrorCode {
+  if (error instanceof GattTimeoutError) return 'timeout';
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  switch (name) {
+    case 'NotFoundError':
+      if (/cancelled/i.test(message)) return 'cancelled';
+      if (/adapter/i.test(message)) return 'bluetooth-unavailable';
+      if (/service/i.test(message)) return 'service-not-found';
+      if (/characteristic/i.test(message)) return 'characteristic-not-found';
+      return 'device-not-found';
+    case 'SecurityError':
+    case 'NotAllowedError':
+      return 'permission-denied';
+    case 'NotSupportedError':
+      // On a connected device this is the device rejecting the request (write not permitted,
+      // value out of range), not a browser limitation
+      if (during === 'connect') return 'not-supported';
+      return /range|invalid/i.test(message) ? 'invalid-value' : 'operation-failed';
+    case 'NetworkError':
+      return during === 'connect' ? 'connection-failed' : 'disconnected';
+    case 'InvalidStateError':
+      return /in progress/i.test(message) ? 'device-busy' : 'disconnected';
+    case 'TimeoutError':
+      return 'timeout';
+  }
+
+  // Errors raised by the app, the transports and the operation queue
+  if (/cancelled/i.test(message)) return 'cancelled';
+  if (/already in progress/i.test(message)) return 'device-busy';
+  if (/characteristic .* not found/i.test(message)) return 'characteristic-not-found';
+  if (/not connected|disconnect/i.test(message)) return 'disconnected';
+  return during === 'connect' ? 'connection-failed' : 'operation-failed';
+}
+
+/**
+ * Convert any thrown value to a BLEError (BLEErrors are returned unchanged)
+ */
+export function toBLEError(error: unknown, during: 'connect' | 'operation' = 'operation'): BLEError {
+  if (error instanceof BLEError) return error;
+  return createBLEError(classify(error, during), { cause: error });
+}
+
+/**
+ * One-line text for compact surfaces (snackbars): the message and the first remediation step
+ */
+export function formatBLEError(error: unknown): string {
+  const bleError = toBLEError(error);
+  return [bleError.message, bleError.remediation[0]].filter(Boolean).join(' ');
+}
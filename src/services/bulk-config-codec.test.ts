@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BULK_CONFIG_LENGTH,
+  BULK_CONFIG_OFFSETS,
+  BULK_CONFIG_VERSION,
+  decodeBulkConfig,
+  encodeBulkConfig,
+} from './bulk-config-codec';
+import { BLEOperationError } from './ble-errors';
+import { MotorMode, PRESET_CHARACTERISTIC_KEYS } from '../types/characteristic.types';
+import type { PresetConfig } from '../types/preset.types';
+
+// Every field differs from its neighbours, so a wrong offset can't round-trip by accident
+const SAMPLE_CONFIG: PresetConfig = {
+  mode: MotorMode.MODE_CUSTOM,
+  customFrequency: 150,
+  customDutyCycle: 50,
+  mode4Intensity: 60,
+  mode0Intensity: 55,
+  mode1Intensity: 60,
+  mode2Intensity: 75,
+  mode3Intensity: 80,
+  ledEnable: true,
+  ledColorMode: 1,
+  ledPaletteIndex: 7,
+  ledCustomRGB: [1, 2, 3],
+  ledBrightness: 20,
+  sessionDuration: 3600,
+};
+
+const MIN_CONFIG: PresetConfig = {
+  mode: MotorMode.MODE_05HZ_25,
+  customFrequency: 25,
+  customDutyCycle: 10,
+  mode4Intensity: 0, // Special value below the 30-80 range
+  mode0Intensity: 50,
+  mode1Intensity: 50,
+  mode2Intensity: 70,
+  mode3Intensity: 70,
+  ledEnable: false,
+  ledColorMode: 0,
+  ledPaletteIndex: 0,
+  ledCustomRGB: [0, 0, 0],
+  ledBrightness: 10,
+  sessionDuration: 1200,
+};
+
+const MAX_CONFIG: PresetConfig = {
+  mode: MotorMode.MODE_CUSTOM,
+  customFrequency: 200,
+  customDutyCycle: 100,
+  mode4Intensity: 80,
+  mode0Intensity: 80,
+  mode1Intensity: 80,
+  mode2Intensity: 90,
+  mode3Intensity: 90,
+  ledEnable: true,
+  ledColorMode: 1,
+  ledPaletteIndex: 15,
+  ledCustomRGB: [255, 255, 255],
+  ledBrightness: 30,
+  sessionDuration: 5400,
+};
+
+function roundTrip(config: PresetConfig): PresetConfig {
+  const bytes = encodeBulkConfig(config);
+  return decodeBulkConfig(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength));
+}
+
+function payload(bytes: number[]): DataView {
+  return new DataView(new Uint8Array(bytes).buffer);
+}
+
+describe('encodeBulkConfig / decodeBulkConfig', () => {
+  it('round-trips every preset field', () => {
+    const decoded = roundTrip(SAMPLE_CONFIG);
+    expect(decoded).toEqual(SAMPLE_CONFIG);
+    expect(Object.keys(decoded)).toHaveLength(PRESET_CHARACTERISTIC_KEYS.length);
+  });
+
+  it('writes the version 1 layout', () => {
+    const bytes = encodeBulkConfig(SAMPLE_CONFIG);
+    expect(bytes).toHaveLength(BULK_CONFIG_LENGTH);
+    expect(Array.from(bytes)).toEqual([
+      BULK_CONFIG_VERSION,
+      4, // MODE
+      150, 0, // CUSTOM_FREQUENCY (little-endian)
+      50, 60, 55, 60, 75, 80, // duty cycle, MODE_4 then MODE_0..3 intensities
+      1, 1, 7, // LED enable, color mode, palette index
+      1, 2, 3, // LED_CUSTOM_RGB
+      20, // LED_BRIGHTNESS
+      0x10, 0x0e, 0, 0, // SESSION_DURATION 3600 (little-endian)
+    ]);
+  });
+
+  it('round-trips the range minimums and the MODE_4 special value 0', () => {
+    expect(roundTrip(MIN_CONFIG)).toEqual(MIN_CONFIG);
+  });
+
+  it('round-trips the range maximums', () => {
+    expect(roundTrip(MAX_CONFIG)).toEqual(MAX_CONFIG);
+  });
+
+  it('keeps multi-byte fields intact at full width', () => {
+    const config: PresetConfig = { ...SAMPLE_CONFIG, customFrequency: 0xffff, sessionDuration: 0xffffffff };
+    const bytes = encodeBulkConfig(config);
+    expect(Array.from(bytes.slice(BULK_CONFIG_OFFSETS.CUSTOM_FREQUENCY, BULK_CONFIG_OFFSETS.CUSTOM_FREQUENCY + 2)))
+      .toEqual([0xff, 0xff]);
+    expect(roundTrip(config)).toEqual(config);
+  });
+
+  it('decodes a payload that starts partway into its buffer', () => {
+    const bytes = new Uint8Array(BULK_CONFIG_LENGTH + 4);
+    bytes.set(encodeBulkConfig(SAMPLE_CONFIG), 4);
+    expect(decodeBulkConfig(new DataView(bytes.buffer, 4, BULK_CONFIG_LENGTH))).toEqual(SAMPLE_CONFIG);
+  });
+});
+
+describe('decodeBulkConfig validation', () => {
+  it.each([0, 2, 0xff])('rejects layout version %i', version => {
+    const bytes = Array.from(encodeBulkConfig(SAMPLE_CONFIG));
+    bytes[0] = version;
+    const decode = () => decodeBulkConfig(payload(bytes));
+    expect(decode).toThrow(BLEOperationError);
+    expect(decode).toThrow(`Unsupported bulk config layout version ${version}`);
+  });
+
+  it('rejects an empty payload', () => {
+    const decode = () => decodeBulkConfig(payload([]));
+    expect(decode).toThrow(BLEOperationError);
+    expect(decode).toThrow('(empty payload)');
+  });
+
+  it.each([1, BULK_CONFIG_LENGTH - 1, BULK_CONFIG_LENGTH + 1])('rejects a %i byte payload', length => {
+    const bytes = Array.from(encodeBulkConfig(SAMPLE_CONFIG));
+    const resized = Array.from({ length }, (_, index) => bytes[index] ?? 0);
+    const decode = () => decodeBulkConfig(payload(resized));
+    expect(decode).toThrow(BLEOperationError);
+    expect(decode).toThrow(`Bulk config payload is ${length} bytes, expected ${BULK_CONFIG_LENGTH}`);
+  });
+
+  it('reports the invalid-value code', () => {
+    try {
+      decodeBulkConfig(payload([2]));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(BLEOperationError);
+      expect((error as BLEOperationError).code).toBe('invalid-value');
+    }
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Bulk Config Codec
+ * Packs every preset field into the optional BULK_CONFIG characteristic, so reading or applying
+ * a whole configuration is one GATT round trip instead of one per characteristic
+ * Pure functions, like characteristic-codec.ts
+ *
+ * Layout version 1 (21 bytes, multi-byte fields little-endian, each field in its
+ * CHARACTERISTIC_SCHEMA wire format):
+ *
+ *   Offset  Size  Field
+ *   0       1     Layout version (1)
+ *   1       1     MODE
+ *   2       2     CUSTOM_FREQUENCY
+ *   4       1     CUSTOM_DUTY_CYCLE
+ *   5       1     MODE_4_INTENSITY
+ *   6       1     MODE_0_INTENSITY
+ *   7       1     MODE_1_INTENSITY
+ *   8       1     MODE_2_INTENSITY
+ *   9       1     MODE_3_INTENSITY
+ *   10      1     LED_ENABLE
+ *   11      1     LED_COLOR_MODE
+ *   12      1     LED_PALETTE_INDEX
+ *   13      3     LED_CUSTOM_RGB (R, G, B)
+ *   16      1     LED_BRIGHTNESS
+ *   17      4     SESSION_DURATION
+ *
+ * Firmware applies a written payload as a whole (validating every field first, rejecting the
+ * write if any is out of range) and must keep accepting version 1 payloads once later layouts
+ * exist. The app falls back to per-characteristic access for any version it doesn't know.
+ * At 21 bytes the value is one byte over the default ATT MTU payload; the browser uses long
+ * reads/writes automatically, or a single PDU after MTU exchange.
+ */
+
+import { decodeCharacteristicValue, encodeCharacteristicValue, withCharacteristicValue } from './characteristic-codec';
+import { BLEOperationError } from './ble-errors';
+import {
+  CHARACTERISTIC_SCHEMA,
+  CharacteristicValue,
+  PRESET_CHARACTERISTIC_KEYS,
+  PresetCharacteristicKey,
+} from '../types/characteristic.types';
+import type { PresetConfig } from '../types/preset.types';
+
+export const BULK_CONFIG_VERSION = 1;
+
+export const BULK_CONFIG_LENGTH = 21;
+
+/**
+ * Byte offset of each preset field in a version 1 payload (see the layout table above)
+ */
+export const BULK_CONFIG_OFFSETS: Record<PresetCharacteristicKey, number> = {
+  MODE: 1,
+  CUSTOM_FREQUENCY: 2,
+  CUSTOM_DUTY_CYCLE: 4,
+  MODE_4_INTENSITY: 5,
+  MODE_0_INTENSITY: 6,
+  MODE_1_INTENSITY: 7,
+  MODE_2_INTENSITY: 8,
+  MODE_3_INTENSITY: 9,
+  LED_ENABLE: 10,
+  LED_COLOR_MODE: 11,
+  LED_PALETTE_INDEX: 12,
+  LED_CUSTOM_RGB: 13,
+  LED_BRIGHTNESS: 16,
+  SESSION_DURATION: 17,
+};
+
+/**
+ * Pack a full preset configuration (values are expected to be validated already)
+ */
+export function encodeBulkConfig(config: PresetConfig): Uint8Array {
+  const bytes = new Uint8Array(BULK_CONFIG_LENGTH);
+  bytes[0] = BULK_CONFIG_VERSION;
+  for (const key of PRESET_CHARACTERISTIC_KEYS) {
+    const value = config[CHARACTERISTIC_SCHEMA[key].field] as CharacteristicValue<PresetCharacteristicKey>;
+    bytes.set(encodeCharacteristicValue(key, value), BULK_CONFIG_OFFSETS[key]);
+  }
+  return bytes;
+}
+
+/**
+ * Unpack a BULK_CONFIG payload
+ * @throws BLEOperationError('invalid-value') for an unknown layout version or a payload of the wrong length
+ */
+export function decodeBulkConfig(view: DataView): PresetConfig {
+  const version = view.byteLength > 0 ? view.getUint8(0) : null;
+  if (version !== BULK_CONFIG_VERSION) {
+    throw new BLEOperationError('invalid-value', {
+      message: `Unsupported bulk config layout version ${version ?? '(empty payload)'}`,
+    });
+  }
+  if (view.byteLength !== BULK_CONFIG_LENGTH) {
+    throw new BLEOperationError('invalid-value', {
+      message: `Bulk config payload is ${view.byteLength} bytes, expected ${BULK_CONFIG_LENGTH}`,
+    });
+  }
+
+  let config: Partial<PresetConfig> = {};
+  for (const key of PRESET_CHARACTERISTIC_KEYS) {
+    const field = new DataView(view.buffer, view.byteOffset + BULK_CONFIG_OFFSETS[key]);
+    config = withCharacteristicValue(config, key, decodeCharacteristicValue(key, field));
+  }
+  return config as PresetConfig;
+}
@@ -0,0 +1,132 @@
+/**
+ * Characteristic Codec
+ * Converts between raw payloads and JS values, and validates values, using CHARACTERISTIC_SCHEMA
+ * Pure functions so the codec can be exercised without a transport
+ */
+
+import {
+  CHARACTERISTIC_SCHEMA,
+  CharacteristicKey,
+  CharacteristicSpec,
+  CharacteristicValue,
+  DeviceConfig,
+} from '../types/characteristic.types';
+
+function getSpec(key: CharacteristicKey): CharacteristicSpec {
+  return CHARACTERISTIC_SCHEMA[key];
+}
+
+/**
+ * Decode a raw characteristic payload (notification or read) into its JS value
+ */
+export function decodeCharacteristicValue<K extends CharacteristicKey>(
+  key: K,
+  view: DataView
+): CharacteristicValue<K> {
+  const spec = getSpec(key);
+  const littleEndian = spec.endianness !== 'big';
+
+  let value: unknown;
+  switch (spec.wireType) {
+    case 'uint8':
+      value = view.getUint8(0);
+      break;
+    case 'uint16':
+      value = view.getUint16(0, littleEndian);
+      break;
+    case 'uint32':
+      value = view.getUint32(0, littleEndian);
+      break;
+    case 'bool':
+      value = view.getUint8(0) === 1;
+      break;
+    case 'rgb':
+      value = [view.getUint8(0), view.getUint8(1), view.getUint8(2)];
+      break;
+    case 'utf8':
+      value = new TextDecoder('utf-8')
+        .decode(new Uint8Array(view.buffer, view.byteOffset, view.byteLength))
+        .replace(/\0/g, '')
+        .trim();
+      break;
+  }
+  return value as CharacteristicValue<K>;
+}
+
+/**
+ * Encode a JS value into the characteristic's wire format
+ */
+export function encodeCharacteristicValue<K extends CharacteristicKey>(
+  key: K,
+  value: CharacteristicValue<K>
+): Uint8Array {
+  const spec = getSpec(key);
+  const littleEndian = spec.endianness !== 'big';
+
+  switch (spec.wireType) {
+    case 'uint8':
+      return new Uint8Array([value as number]);
+    case 'uint16': {
+      const buffer = new Uint8Array(2);
+      new DataView(buffer.buffer).setUint16(0, value as number, littleEndian);
+      return buffer;
+    }
+    case 'uint32': {
+      const buffer = new Uint8Array(4);
+      new DataView(buffer.buffer).setUint32(0, value as number, littleEndian);
+      return buffer;
+    }
+    case 'bool':
+      return new Uint8Array([value ? 1 : 0]);
+    case 'rgb':
+      return new Uint8Array(value as [number, number, number]);
+    case 'utf8':
+      return new TextEncoder().encode(value as string);
+  }
+}
+
+/**
+ * Check a value against the characteristic's range and special values
+ * @returns Error message, or null if the value is valid
+ */
+export function validateCharacteristicValue<K extends CharacteristicKey>(
+  key: K,
+  value: CharacteristicValue<K>
+): string | null {
+  const spec = getSpec(key);
+  if (!spec.range) return null;
+
+  const { min, max } = spec.range;
+  const unit = spec.unit ?? '';
+  const components = Array.isArray(value) ? value : [value];
+
+  for (const component of components) {
+    if (typeof component !== 'number' || !Number.isInteger(component)) {
+      return `${spec.label} must be a whole number`;
+    }
+    const isSpecial = spec.specialValues?.some(special => special.value === component) ?? false;
+    if (!isSpecial && (component < min || component > max)) {
+      const special = spec.specialValues?.map(s => ` (or ${s.value}${unit} for ${s.meaning})`).join('') ?? '';
+      return `${spec.label} must be between ${min}${unit} and ${max}${unit}${special}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Copy of a (partial) config with the characteristic's DeviceConfig field set to value
+ */
+export function withCharacteristicValue<C extends Partial<DeviceConfig>, K extends CharacteristicKey>(
+  config: C,
+  key: K,
+  value: CharacteristicValue<K>
+): C {
+  return { ...config, [CHARACTERISTIC_SCHEMA[key].field]: value };
+}
+
+/**
+ * Whether value is one of the characteristic's special values (e.g. 0 = LED only)
+ */
+export function isSpecialCharacteristicValue(key: CharacteristicKey, value: number): boolean {
+  return getSpec(key).specialValues?.some(special => special.value === value) ?? false;
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { CONNECTING_PHASES, TIMED_CONNECT_PHASES, canTransition, connectionStatusForPhase } from './connection-phase';
+import type { ConnectionPhase } from '../types/ble-events.types';
+
+const PHASES: ConnectionPhase[] = [
+  'idle',
+  'requesting',
+  'connecting',
+  'discovering',
+  'subscribing',
+  'reading',
+  'ready',
+  'reconnecting',
+  'disconnecting',
+  'failed',
+];
+
+// Every allowed transition; anything else must be rejected
+const ALLOWED: Array<[ConnectionPhase, ConnectionPhase]> = [
+  ['idle', 'requesting'],
+  ['idle', 'connecting'],
+  ['requesting', 'connecting'],
+  ['requesting', 'idle'],
+  ['requesting', 'failed'],
+  ['connecting', 'discovering'],
+  ['connecting', 'disconnecting'],
+  ['connecting', 'failed'],
+  ['discovering', 'subscribing'],
+  ['discovering', 'reading'],
+  ['discovering', 'disconnecting'],
+  ['discovering', 'failed'],
+  ['subscribing', 'reading'],
+  ['subscribing', 'disconnecting'],
+  ['subscribing', 'failed'],
+  ['reading', 'ready'],
+  ['reading', 'disconnecting'],
+  ['reading', 'failed'],
+  ['ready', 'reconnecting'],
+  ['ready', 'disconnecting'],
+  ['ready', 'idle'],
+  ['reconnecting', 'ready'],
+  ['reconnecting', 'disconnecting'],
+  ['reconnecting', 'failed'],
+  ['disconnecting', 'idle'],
+  ['failed', 'requesting'],
+  ['failed', 'connecting'],
+  ['failed', 'idle'],
+];
+
+describe('canTransition', () => {
+  it.each(ALLOWED)('allows %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(true);
+  });
+
+  const rejected = PHASES.flatMap(from => PHASES.map(to => [from, to] as [ConnectionPhase, ConnectionPhase]))
+    .filter(([from, to]) => !ALLOWED.some(([a, b]) => a === from && b === to));
+
+  it.each(rejected)('rejects %s -> %s', (from, to) => {
+    expect(canTransition(from, to)).toBe(false);
+  });
+
+  it('walks a full connect, link loss, reconnect and disconnect', () => {
+    const path: ConnectionPhase[] = [
+      'idle', 'requesting', 'connecting', 'discovering', 'subscribing', 'reading', 'ready',
+      'reconnecting', 'ready', 'disconnecting', 'idle',
+    ];
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i])).toBe(true);
+    }
+  });
+
+  it('never lets a second connect start while one is in progress', () => {
+    for (const phase of CONNECTING_PHASES) {
+      expect(canTransition(phase, 'requesting')).toBe(false);
+    }
+  });
+});
+
+describe('phase sets', () => {
+  it('times every connecting phase except the chooser', () => {
+    expect([...TIMED_CONNECT_PHASES]).toEqual([...CONNECTING_PHASES].filter(phase => phase !== 'requesting'));
+  });
+});
+
+describe('connectionStatusForPhase', () => {
+  it.each(PHASES)('maps %s', phase => {
+    const expected = phase === 'ready' ? 'connected' : phase === 'reconnecting' ? 'reconnecting' : 'disconnected';
+    expect(connectionStatusForPhase(phase)).toBe(expected);
+  });
+});
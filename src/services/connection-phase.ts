@@ -0,0 +1,56 @@
+/**
+ * Connection Phase Transitions
+ * Which ConnectionPhase may follow which, so BLEConfigService can reject e.g. connect()
+ * while a connection is already being set up
+ */
+
+import type { ConnectionPhase, ConnectionStatus } from '../types/ble-events.types';
+
+const TRANSITIONS: Record<ConnectionPhase, readonly ConnectionPhase[]> = {
+  idle: ['requesting', 'connecting'],
+  requesting: ['connecting', 'idle', 'failed'], // idle: chooser closed without picking a device
+  connecting: ['discovering', 'disconnecting', 'failed'],
+  discovering: ['subscribing', 'reading', 'disconnecting', 'failed'], // reading: auto-notifications disabled
+  subscribing: ['reading', 'disconnecting', 'failed'],
+  reading: ['ready', 'disconnecting', 'failed'],
+  ready: ['reconnecting', 'disconnecting', 'idle'], // idle: link lost with auto-reconnect off
+  reconnecting: ['ready', 'disconnecting', 'failed'],
+  disconnecting: ['idle'],
+  failed: ['requesting', 'connecting', 'idle'],
+};
+
+/**
+ * Phases between starting a connection and the device being ready (ConnectingOverlay is shown)
+ */
+export const CONNECTING_PHASES: ReadonlySet<ConnectionPhase> = new Set<ConnectionPhase>([
+  'requesting',
+  'connecting',
+  'discovering',
+  'subscribing',
+  'reading',
+]);
+
+/**
+ * Connect phases that run against a timeout (the chooser in 'requesting' waits for the user)
+ */
+export type TimedConnectPhase = 'connecting' | 'discovering' | 'subscribing' | 'reading';
+
+export const TIMED_CONNECT_PHASES: ReadonlySet<ConnectionPhase> = new Set<TimedConnectPhase>([
+  'connecting',
+  'discovering',
+  'subscribing',
+  'reading',
+]);
+
+export function canTransition(from: ConnectionPhase, to: ConnectionPhase): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Coarse status for the 'connectionStatus' event
+ */
+export function connectionStatusForPhase(phase: ConnectionPhase): ConnectionStatus {
+  if (phase === 'ready') return 'connected';
+  if (phase === 'reconnecting') return 'reconnecting';
+  return 'disconnected';
+}
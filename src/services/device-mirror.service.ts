@@ -0,0 +1,115 @@
+/**
+ * Device Mirror Service
+ * Shares the live device state between tabs: the tab owning the connection publishes it,
+ * every other tab keeps the latest copy for a read-only view
+ */
+
+import { bleConfigService } from './ble-config.service';
+import { tabSyncService } from './tab-sync.service';
+import { MirroredDeviceState } from '../types/tab-sync.types';
+
+const PUBLISH_CHECK_INTERVAL_MS = 1000; // How often the owner looks for changes to publish
+const HEARTBEAT_INTERVAL_MS = 5000; // Unchanged state is republished so mirrors know the owner is alive
+const MIRROR_TIMEOUT_MS = 15000; // Mirrors drop a state not refreshed for this long (owner tab crashed)
+
+export class DeviceMirrorService {
+  private remoteState: MirroredDeviceState | null = null;
+  private remoteListeners: Set<(state: MirroredDeviceState | null) => void> = new Set();
+  private expiryTimer: number | null = null;
+
+  // Owner side: what was last sent, to skip unchanged states between heartbeats
+  private lastPublished = 'null';
+  private lastPublishedAt = 0;
+
+  /**
+   * Start publishing (while this tab owns the connection) and receiving; call once at startup
+   * @returns Stop function
+   */
+  start(): () => void {
+    const unsubscribers = [
+      tabSyncService.on('deviceState', state => this.setRemoteState(state)),
+      tabSyncService.on('deviceStateRequest', () => {
+        if (tabSyncService.isOwner()) this.publish(true);
+      }),
+      bleConfigService.on('connectionPhase', () => this.publish()),
+    ];
+    const publishTimer = window.setInterval(() => this.publish(), PUBLISH_CHECK_INTERVAL_MS);
+
+    // Closing the owner tab ends the mirror right away instead of after the timeout
+    const handlePageHide = () => {
+      if (tabSyncService.isOwner()) tabSyncService.broadcast('deviceState', null);
+    };
+    window.addEventListener('pagehide', handlePageHide);
+
+    // Another tab may already be connected
+    tabSyncService.broadcast('deviceStateRequest', undefined);
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      clearInterval(publishTimer);
+      window.removeEventListener('pagehide', handlePageHide);
+    };
+  }
+
+  /**
+   * Device state of the tab that owns the connection, null if no other tab is connected
+   */
+  getRemoteState(): MirroredDeviceState | null {
+    return this.remoteState;
+  }
+
+  /**
+   * Subscribe to the other tab's device state
+   * @returns Unsubscribe function
+   */
+  onRemoteStateChange(callback: (state: MirroredDeviceState | null) => void): () => void {
+    this.remoteListeners.add(callback);
+    return () => {
+      this.remoteListeners.delete(callback);
+    };
+  }
+
+  private currentState(): MirroredDeviceState | null {
+    const phase = bleConfigService.getConnectionPhase();
+    if (!tabSyncService.isOwner() || phase === 'idle' || phase === 'failed') {
+      return null;
+    }
+    return {
+      deviceName: bleConfigService.getDeviceName(),
+      phase,
+      config: bleConfigService.getCachedConfig(),
+      updatedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Send the current state if it changed, or as a heartbeat
+   * Sends null once after this tab stops owning a connection
+   */
+  private publish(force = false): void {
+    const state = this.currentState();
+    const serialized = JSON.stringify(state && { ...state, updatedAt: 0 });
+    const heartbeatDue = state !== null && Date.now() - this.lastPublishedAt >= HEARTBEAT_INTERVAL_MS;
+    if (!force && serialized === this.lastPublished && !heartbeatDue) return;
+
+    this.lastPublished = serialized;
+    this.lastPublishedAt = Date.now();
+    tabSyncService.broadcast('deviceState', state);
+  }
+
+  private setRemoteState(state: MirroredDeviceState | null): void {
+    if (this.expiryTimer !== null) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+    if (state) {
+      this.expiryTimer = window.setTimeout(() => this.setRemoteState(null), MIRROR_TIMEOUT_MS);
+    }
+
+    this.remoteState = state;
+    this.remoteListeners.forEach(listener => listener(state));
+  }
+}
+
+// Singleton instance
+export const deviceMirrorService = new DeviceMirrorService();
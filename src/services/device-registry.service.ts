@@ -0,0 +1,161 @@
+/**
+ * Device Registry Service
+ * Remembers every device the app connected to: nickname, connection history,
+ * firmware versions and last known config (IndexedDB, keyed by device id)
+ *
+ * Identical units all advertise "MLEHaptics"; the nickname is what tells them apart.
+ */
+
+import { indexedDBService, STORE_NAMES } from './indexeddb.service';
+import { DeviceConfig } from '../types/characteristic.types';
+import { DeviceRecord } from '../types/device-registry.types';
+import { DeviceInformation } from '../types/standard-services.types';
+
+// Connected time is written periodically so closing the tab loses at most this much
+const CHECKPOINT_INTERVAL_MS = 60000;
+
+interface ActiveSession {
+  deviceId: string;
+  since: number; // Start of the time not yet added to totalConnectedMs
+  getConfig: () => DeviceConfig | null;
+  timer: number;
+}
+
+export class DeviceRegistryService {
+  private session: ActiveSession | null = null;
+  private changeListeners: Set<(record: DeviceRecord) => void> = new Set();
+
+  async getDevice(deviceId: string): Promise<DeviceRecord | null> {
+    return await indexedDBService.get<DeviceRecord>(STORE_NAMES.DEVICE_REGISTRY, deviceId);
+  }
+
+  /**
+   * All known devices, most recently connected first
+   */
+  async getAllDevices(): Promise<DeviceRecord[]> {
+    const records = await indexedDBService.getAll<DeviceRecord>(STORE_NAMES.DEVICE_REGISTRY);
+    return records.sort((a, b) => b.lastConnectedAt - a.lastConnectedAt);
+  }
+
+  /**
+   * Set or clear (empty string) a device nickname
+   */
+  async setNickname(deviceId: string, nickname: string): Promise<DeviceRecord> {
+    return await this.update(deviceId, record => ({
+      ...record,
+      nickname: nickname.trim() || null,
+    }));
+  }
+
+  /**
+   * Start tracking a connection: creates the record on first connect
+   * @param deviceInformation Device Information Service strings, if the device has the service
+   * @param getConfig Returns the current device config (saved at checkpoints and on end)
+   */
+  async startSession(
+    deviceId: string,
+    name: string,
+    config: DeviceConfig | null,
+    deviceInformation: DeviceInformation | null,
+    getConfig: () => DeviceConfig | null
+  ): Promise<DeviceRecord> {
+    await this.endSession();
+
+    const now = Date.now();
+    const existing = await this.getDevice(deviceId);
+    const record: DeviceRecord = {
+      id: deviceId,
+      name,
+      nickname: existing?.nickname ?? null,
+      firstConnectedAt: existing?.firstConnectedAt ?? now,
+      lastConnectedAt: now,
+      localFirmwareVersion: config?.localFirmwareVersion || existing?.localFirmwareVersion || '',
+      peerFirmwareVersion: config?.peerFirmwareVersion || existing?.peerFirmwareVersion || '',
+      serialNumber: deviceInformation?.serialNumber || existing?.serialNumber || '',
+      hardwareRevision: deviceInformation?.hardwareRevision || existing?.hardwareRevision || '',
+      lastConfig: config ?? existing?.lastConfig ?? null,
+      totalConnectedMs: existing?.totalConnectedMs ?? 0,
+    };
+    await indexedDBService.put(STORE_NAMES.DEVICE_REGISTRY, record);
+    this.notify(record);
+
+    this.session = {
+      deviceId,
+      since: now,
+      getConfig,
+      timer: window.setInterval(() => {
+        this.checkpoint().catch(error => console.warn('Device registry checkpoint failed:', error));
+      }, CHECKPOINT_INTERVAL_MS),
+    };
+    return record;
+  }
+
+  /**
+   * Stop tracking the current connection, adding its remaining connected time
+   * @param config Final config (defaults to the session's getConfig())
+   */
+  async endSession(config?: DeviceConfig | null): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+
+    this.session = null;
+    clearInterval(session.timer);
+    await this.saveSessionProgress(session, config === undefined ? session.getConfig() : config);
+  }
+
+  /**
+   * Subscribe to record changes (nickname edits, connects, checkpoints)
+   * @returns Unsubscribe function
+   */
+  onChange(callback: (record: DeviceRecord) => void): () => void {
+    this.changeListeners.add(callback);
+    return () => {
+      this.changeListeners.delete(callback);
+    };
+  }
+
+  private async checkpoint(): Promise<void> {
+    const session = this.session;
+    if (!session) return;
+    await this.saveSessionProgress(session, session.getConfig());
+  }
+
+  private async saveSessionProgress(session: ActiveSession, config: DeviceConfig | null): Promise<void> {
+    const now = Date.now();
+    const elapsed = now - session.since;
+    session.since = now;
+
+    await this.update(session.deviceId, record => ({
+      ...record,
+      totalConnectedMs: record.totalConnectedMs + elapsed,
+      lastConfig: config ?? record.lastConfig,
+      localFirmwareVersion: config?.localFirmwareVersion || record.localFirmwareVersion,
+      peerFirmwareVersion: config?.peerFirmwareVersion || record.peerFirmwareVersion,
+    }));
+  }
+
+  private async update(deviceId: string, change: (record: DeviceRecord) => DeviceRecord): Promise<DeviceRecord> {
+    const existing = await this.getDevice(deviceId);
+    if (!existing) {
+      throw new Error(`Device ${deviceId} is not in the registry`);
+    }
+    const record = change(existing);
+    await indexedDBService.put(STORE_NAMES.DEVICE_REGISTRY, record);
+    this.notify(record);
+    return record;
+  }
+
+  private notify(record: DeviceRecord): void {
+    this.changeListeners.forEach(listener => listener(record));
+  }
+}
+
+/**
+ * Name to show for a device: nickname if set, otherwise the advertised name
+ */
+export function getDeviceDisplayName(record: Pick<DeviceRecord, 'name' | 'nickname'>): string {
+  return record.nickname ?? record.name;
+}
+
+// Singleton instance
+export const deviceRegistryService = new DeviceRegistryService();
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareFirmwareVersions,
+  findFirmwareMismatch,
+  parseFirmwareVersion,
+  resolveFirmwareCapabilities,
+} from './firmware-capabilities';
+import { CHARACTERISTIC_KEYS, CharacteristicKey } from '../types/characteristic.types';
+import type { FirmwareCapabilities } from '../types/firmware.types';
+
+const version = (raw: string) => {
+  const parsed = parseFirmwareVersion(raw);
+  if (!parsed) throw new Error(`Test version ${raw} does not parse`);
+  return parsed;
+};
+
+const supportsAll = () => true;
+const supportsAllBut = (...missing: CharacteristicKey[]) => (key: CharacteristicKey) => !missing.includes(key);
+
+describe('parseFirmwareVersion', () => {
+  it.each([
+    ['v1.0.0 (Dec 15 2025 10:30:00)', 1, 0, 0, new Date(2025, 11, 15, 10, 30, 0)],
+    ['v1.2.3 (Jan  5 2026 08:05:09)', 1, 2, 3, new Date(2026, 0, 5, 8, 5, 9)], // __DATE__ space-pads the day
+    ['v10.20.30', 10, 20, 30, null],
+    ['2.0.1', 2, 0, 1, null],
+    ['  v1.0.1 (Mar 01 2026 23:59:59)  ', 1, 0, 1, new Date(2026, 2, 1, 23, 59, 59)],
+    ['v1.0.0 (Foo 15 2025 10:30:00)', 1, 0, 0, null], // Unknown month: version still usable
+    ['v1.0.0-rc1', 1, 0, 0, null],
+  ])('parses %j', (raw, major, minor, patch, buildDate) => {
+    expect(parseFirmwareVersion(raw)).toEqual({ raw, major, minor, patch, buildDate });
+  });
+
+  it.each([
+    '',
+    '   ',
+    'v1.0',
+    'v1',
+    'version 1.0.0',
+    'v1.x.0',
+    'abc',
+    '(Dec 15 2025 10:30:00)',
+  ])('returns null for %j', raw => {
+    expect(parseFirmwareVersion(raw)).toBeNull();
+  });
+});
+
+describe('compareFirmwareVersions', () => {
+  it.each([
+    ['v1.0.0', 'v1.0.0', 0],
+    ['v1.0.1', 'v1.0.0', 1],
+    ['v1.0.0', 'v1.0.1', -1],
+    ['v1.1.0', 'v1.0.9', 1],
+    ['v2.0.0', 'v1.9.9', 1],
+    ['v1.9.9', 'v10.0.0', -1],
+    ['v1.0.0 (Dec 15 2025 10:30:00)', 'v1.0.0 (Jan 01 2026 00:00:00)', 0], // Build date ignored
+  ])('%s vs %s', (a, b, expected) => {
+    expect(Math.sign(compareFirmwareVersions(version(a), version(b)))).toBe(expected);
+  });
+});
+
+describe('findFirmwareMismatch', () => {
+  it.each([
+    ['v1.0.0 (Dec 15 2025 10:30:00)', '', null],
+    ['', 'v1.0.0', null],
+    ['v1.0.0 (Dec 15 2025 10:30:00)', 'v1.0.0 (Dec 15 2025 10:30:00)', null],
+    ['v1.0.0 (Dec  5 2025 10:30:00)', 'v1.0.0 (Dec 05 2025 10:30:00)', null],
+    ['v1.0.0', 'v1.1.0', 'local'],
+    ['v1.1.0', 'v1.0.0', 'peer'],
+    ['v1.0.0 (Dec 15 2025 10:30:00)', 'v1.0.0 (Dec 16 2025 10:30:00)', 'local'],
+    ['v1.0.0', 'v1.0.0 (Dec 16 2025 10:30:00)', 'unknown'],
+    ['garbage', 'v1.0.0', 'unknown'],
+  ])('%j vs %j -> %s', (local, peer, behind) => {
+    const mismatch = findFirmwareMismatch(local, peer);
+    expect(mismatch).toEqual(behind === null ? null : { local, peer, behind });
+  });
+});
+
+describe('resolveFirmwareCapabilities', () => {
+  const ALL: FirmwareCapabilities = {
+    perModeIntensity: true,
+    modeNotify: true,
+    firmwareVersion: true,
+    ledOnlyIntensity: true,
+  };
+
+  it.each<[string, string | null, (key: CharacteristicKey) => boolean, boolean, FirmwareCapabilities]>([
+    ['v1.0.0 with every characteristic', 'v1.0.0 (Dec 15 2025 10:30:00)', supportsAll, true, ALL],
+    ['a later version', 'v1.4.2', supportsAll, true, ALL],
+    [
+      'v1.0.0 whose MODE notifications failed to start',
+      'v1.0.0', supportsAll, false,
+      { ...ALL, modeNotify: false },
+    ],
+    [
+      'v1.0.0 without MODE_2_INTENSITY',
+      'v1.0.0', supportsAllBut('MODE_2_INTENSITY'), true,
+      { ...ALL, perModeIntensity: false },
+    ],
+    [
+      'v1.0.0 without MODE_4_INTENSITY',
+      'v1.0.0', supportsAllBut('MODE_4_INTENSITY'), true,
+      { ...ALL, ledOnlyIntensity: false },
+    ],
+    [
+      'v1.0.0 without MODE',
+      'v1.0.0', supportsAllBut('MODE'), true,
+      { ...ALL, modeNotify: false },
+    ],
+    [
+      'a version older than the table',
+      'v0.9.0', supportsAll, true,
+      { perModeIntensity: false, modeNotify: false, firmwareVersion: true, ledOnlyIntensity: false },
+    ],
+    [
+      'unversioned firmware with per-mode intensities and MODE notifications',
+      null, supportsAllBut('LOCAL_FIRMWARE_VERSION'), true,
+      { perModeIntensity: true, modeNotify: true, firmwareVersion: false, ledOnlyIntensity: false },
+    ],
+    [
+      'unversioned firmware with one intensity and no MODE notifications',
+      null, supportsAllBut('MODE_0_INTENSITY', 'MODE_1_INTENSITY', 'MODE_2_INTENSITY', 'MODE_3_INTENSITY'), false,
+      { perModeIntensity: false, modeNotify: false, firmwareVersion: false, ledOnlyIntensity: false },
+    ],
+  ])('%s', (_, raw, isSupported, modeNotifying, expected) => {
+    const parsed = raw === null ? null : version(raw);
+    expect(resolveFirmwareCapabilities(parsed, isSupported, modeNotifying)).toEqual(expected);
+  });
+
+  it('checks only characteristics from the schema', () => {
+    const asked = new Set<CharacteristicKey>();
+    resolveFirmwareCapabilities(version('v1.0.0'), key => {
+      asked.add(key);
+      return true;
+    }, true);
+    expect([...asked].every(key => CHARACTERISTIC_KEYS.includes(key))).toBe(true);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Firmware Capabilities
+ * Parses firmware version strings and maps versions to supported features
+ *
+ * Firmware reports "vMAJOR.MINOR.PATCH (MMM DD YYYY HH:MM:SS)" since v1.0.0.
+ * Older firmware has no version characteristics; its features are detected
+ * from the characteristics it exposes instead.
+ */
+
+import { CharacteristicKey } from '../types/characteristic.types';
+import {
+  FirmwareCapabilities,
+  FirmwareCapability,
+  FirmwareMismatch,
+  FirmwareVersion,
+} from '../types/firmware.types';
+
+type VersionTriple = [major: number, minor: number, patch: number];
+
+/**
+ * Features introduced per firmware version (ascending)
+ * A version gets the row with the highest minVersion not above it
+ */
+const FIRMWARE_CAPABILITY_TABLE: { minVersion: VersionTriple; capabilities: FirmwareCapabilities }[] = [
+  {
+    // First versioned release: per-mode intensities, MODE notify, version characteristics, LED-only
+    minVersion: [1, 0, 0],
+    capabilities: {
+      perModeIntensity: true,
+      modeNotify: true,
+      firmwareVersion: true,
+      ledOnlyIntensity: true,
+    },
+  },
+];
+
+/**
+ * Characteristics a capability needs; missing ones disable it even if the version claims support
+ */
+const CAPABILITY_CHARACTERISTICS: Partial<Record<FirmwareCapability, CharacteristicKey[]>> = {
+  perModeIntensity: ['MODE_0_INTENSITY', 'MODE_1_INTENSITY', 'MODE_2_INTENSITY', 'MODE_3_INTENSITY'],
+  modeNotify: ['MODE'],
+  firmwareVersion: ['LOCAL_FIRMWARE_VERSION'],
+  ledOnlyIntensity: ['MODE_4_INTENSITY'],
+};
+
+/**
+ * Capabilities assumed before connecting (nothing is disabled up front)
+ */
+export const DEFAULT_FIRMWARE_CAPABILITIES: FirmwareCapabilities = {
+  perModeIntensity: true,
+  modeNotify: true,
+  firmwareVersion: true,
+  ledOnlyIntensity: true,
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// "v1.0.0 (Dec 15 2025 10:30:00)" - __DATE__ pads single-digit days with a space ("Dec  5 2025")
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:\s*\((\w{3})\s+(\d{1,2})\s+(\d{4})\s+(\d{2}):(\d{2}):(\d{2})\))?/;
+
+/**
+ * Parse a firmware version string
+ * @returns Parsed version, or null if empty or not in the expected format
+ */
+export function parseFirmwareVersion(raw: string): FirmwareVersion | null {
+  const match = VERSION_PATTERN.exec(raw.trim());
+  if (!match) return null;
+
+  const [, major, minor, patch, month, day, year, hours, minutes, seconds] = match;
+  const monthIndex = month ? MONTHS.indexOf(month) : -1;
+
+  return {
+    raw,
+    major: Number(major),
+    minor: Number(minor),
+    patch: Number(patch),
+    buildDate: monthIndex >= 0
+      ? new Date(Number(year), monthIndex, Number(day), Number(hours), Number(minutes), Number(seconds))
+      : null,
+  };
+}
+
+/**
+ * Compare two versions by semver (build date is ignored)
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareFirmwareVersions(
+  a: Pick<FirmwareVersion, 'major' | 'minor' | 'patch'>,
+  b: Pick<FirmwareVersion, 'major' | 'minor' | 'patch'>
+): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Compare the firmware of both units of a pair
+ * Same version built at different times also counts as a mismatch (development builds)
+ * @returns null when both report the same build, or either version is empty (no peer)
+ */
+export function findFirmwareMismatch(localRaw: string, peerRaw: string): FirmwareMismatch | null {
+  if (!localRaw.trim() || !peerRaw.trim() || localRaw.trim() === peerRaw.trim()) return null;
+
+  const local = parseFirmwareVersion(localRaw);
+  const peer = parseFirmwareVersion(peerRaw);
+  const mismatch = (behind: FirmwareMismatch['behind']): FirmwareMismatch => ({ local: localRaw, peer: peerRaw, behind });
+  if (!local || !peer) return mismatch('unknown');
+
+  const order = compareFirmwareVersions(local, peer);
+  if (order !== 0) return mismatch(order < 0 ? 'local' : 'peer');
+
+  if (!local.buildDate || !peer.buildDate) return mismatch('unknown');
+  const buildOrder = local.buildDate.getTime() - peer.buildDate.getTime();
+  if (buildOrder === 0) return null; // Same build, formatted differently
+  return mismatch(buildOrder < 0 ? 'local' : 'peer');
+}
+
+/**
+ * Format a version for display, e.g. "v1.0.0 (built Dec 15, 2025)"
+ */
+export function formatFirmwareVersion(version: FirmwareVersion): string {
+  const semver = `v${version.major}.${version.minor}.${version.patch}`;
+  if (!version.buildDate) return semver;
+  const built = version.buildDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${semver} (built ${built})`;
+}
+
+/**
+ * Work out which features the connected firmware supports
+ * @param version Parsed local firmware version (null for unversioned/older firmware)
+ * @param isSupported Whether the firmware exposes a characteristic
+ * @param modeNotifying Whether MODE notifications were started successfully (modeNotify is off without them,
+ *   whatever the version claims: the app won't hear button mode changes)
+ */
+export function resolveFirmwareCapabilities(
+  version: FirmwareVersion | null,
+  isSupported: (key: CharacteristicKey) => boolean,
+  modeNotifying: boolean
+): FirmwareCapabilities {
+  const hasCharacteristics = (capability: FirmwareCapability): boolean =>
+    (CAPABILITY_CHARACTERISTICS[capability] ?? []).every(isSupported);
+
+  if (!version) {
+    // Unversioned firmware: trust only what can be observed
+    return {
+      perModeIntensity: hasCharacteristics('perModeIntensity'),
+      modeNotify: modeNotifying,
+      firmwareVersion: false,
+      ledOnlyIntensity: false,
+    };
+  }
+
+  const row = [...FIRMWARE_CAPABILITY_TABLE]
+    .reverse()
+    .find(entry => {
+      const [major, minor, patch] = entry.minVersion;
+      return compareFirmwareVersions(version, { major, minor, patch }) >= 0;
+    });
+  const claimed = row?.capabilities ?? {
+    perModeIntensity: false,
+    modeNotify: false,
+    firmwareVersion: true,
+    ledOnlyIntensity: false,
+  };
+
+  return {
+    perModeIntensity: claimed.perModeIntensity && hasCharacteristics('perModeIntensity'),
+    modeNotify: claimed.modeNotify && hasCharacteristics('modeNotify') && modeNotifying,
+    firmwareVersion: claimed.firmwareVersion && hasCharacteristics('firmwareVersion'),
+    ledOnlyIntensity: claimed.ledOnlyIntensity && hasCharacteristics('ledOnlyIntensity'),
+  };
+}
@@ -0,0 +1,174 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GattOperationQueue, GattTimeoutError, isTransientGattError } from './gatt-operation-queue';
+
+const OPTIONS = { timeoutMs: 1000, maxRetries: 2, retryDelayMs: 100 };
+
+/**
+ * An operation that stays running until release() is called
+ */
+function blocker(): { run: () => Promise<string>; release: () => void } {
+  let release = () => {};
+  const done = new Promise<string>(resolve => {
+    release = () => resolve('blocker');
+  });
+  return { run: () => done, release };
+}
+
+describe('GattOperationQueue', () => {
+  let queue: GattOperationQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    queue = new GattOperationQueue(OPTIONS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs one operation at a time in order', async () => {
+    const order: string[] = [];
+    const first = blocker();
+    const running = queue.enqueue({ label: 'first', priority: 'background', run: () => {
+      order.push('first');
+      return first.run();
+    } });
+    const second = queue.enqueue({ label: 'second', priority: 'background', run: async () => {
+      order.push('second');
+      return 'second';
+    } });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['first']);
+    expect(queue.size).toBe(1);
+
+    first.release();
+    await expect(running).resolves.toBe('blocker');
+    await expect(second).resolves.toBe('second');
+    expect(order).toEqual(['first', 'second']);
+  });
+
+  it('puts user operations ahead of waiting background operations', async () => {
+    const order: string[] = [];
+    const running = blocker();
+    queue.enqueue({ label: 'running', priority: 'background', run: running.run });
+    const record = (label: string) => async () => {
+      order.push(label);
+    };
+    const done = Promise.all([
+      queue.enqueue({ label: 'read A', priority: 'background', run: record('read A') }),
+      queue.enqueue({ label: 'read B', priority: 'background', run: record('read B') }),
+      queue.enqueue({ label: 'write 1', priority: 'user', run: record('write 1') }),
+      queue.enqueue({ label: 'write 2', priority: 'user', run: record('write 2') }),
+    ]);
+
+    running.release();
+    await done;
+    expect(order).toEqual(['write 1', 'write 2', 'read A', 'read B']);
+  });
+
+  it('replaces a waiting operation with the same coalesce key and resolves both callers', async () => {
+    const running = blocker();
+    queue.enqueue({ label: 'running', priority: 'user', run: running.run });
+    const older = vi.fn(async () => 'older');
+    const newer = vi.fn(async () => 'newer');
+    const first = queue.enqueue({ label: 'write 50', priority: 'user', run: older, coalesceKey: 'MODE_0_INTENSITY' });
+    const second = queue.enqueue({ label: 'write 60', priority: 'user', run: newer, coalesceKey: 'MODE_0_INTENSITY' });
+    expect(queue.size).toBe(1);
+
+    running.release();
+    await expect(first).resolves.toBe('newer');
+    await expect(second).resolves.toBe('newer');
+    expect(older).not.toHaveBeenCalled();
+    expect(newer).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not coalesce into the operation already running', async () => {
+    const running = blocker();
+    const first = queue.enqueue({ label: 'first', priority: 'user', run: running.run, coalesceKey: 'MODE' });
+    await vi.advanceTimersByTimeAsync(0);
+    const second = queue.enqueue({ label: 'second', priority: 'user', run: async () => 'second', coalesceKey: 'MODE' });
+
+    running.release();
+    await expect(first).resolves.toBe('blocker');
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('times out an attempt and retries it up to maxRetries', async () => {
+    const run = vi.fn(() => new Promise<never>(() => {}));
+    const result = queue.enqueue({ label: 'read MODE', priority: 'background', run });
+    const assertion = expect(result).rejects.toBeInstanceOf(GattTimeoutError);
+
+    // Three attempts of 1000ms with 100ms and 200ms backoff in between
+    await vi.advanceTimersByTimeAsync(3 * OPTIONS.timeoutMs + 100 + 200);
+    await assertion;
+    expect(run).toHaveBeenCalledTimes(OPTIONS.maxRetries + 1);
+  });
+
+  it('retries transient errors and resolves once an attempt succeeds', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new Error('GATT operation already in progress.'))
+      .mockResolvedValueOnce('ok');
+    const result = queue.enqueue({ label: 'write MODE', priority: 'user', run });
+
+    await vi.advanceTimersByTimeAsync(OPTIONS.retryDelayMs);
+    await expect(result).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry errors that are not transient', async () => {
+    const run = vi.fn().mockRejectedValue(new Error('GATT Server is disconnected.'));
+    await expect(queue.enqueue({ label: 'read MODE', priority: 'background', run })).rejects.toThrow('disconnected');
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps going after a failed operation', async () => {
+    const failed = queue.enqueue({ label: 'bad', priority: 'user', run: async () => {
+      throw new Error('nope');
+    } });
+    const next = queue.enqueue({ label: 'good', priority: 'user', run: async () => 'good' });
+    await expect(failed).rejects.toThrow('nope');
+    await expect(next).resolves.toBe('good');
+  });
+
+  it('clear() rejects waiting operations but lets the running one finish', async () => {
+    const running = blocker();
+    const first = queue.enqueue({ label: 'running', priority: 'user', run: running.run });
+    const waiting = queue.enqueue({ label: 'waiting', priority: 'user', run: async () => 'waiting' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    queue.clear(new Error('Device disconnected'));
+    expect(queue.size).toBe(0);
+    await expect(waiting).rejects.toThrow('Device disconnected');
+
+    running.release();
+    await expect(first).resolves.toBe('blocker');
+  });
+
+  it('runNow() does not wait for the running operation', async () => {
+    const running = blocker();
+    queue.enqueue({ label: 'stuck read', priority: 'background', run: running.run });
+    queue.enqueue({ label: 'waiting', priority: 'background', run: async () => 'waiting' });
+    await vi.advanceTimersByTimeAsync(0);
+
+    await expect(queue.runNow({ label: 'emergency stop', run: async () => 'stopped' })).resolves.toBe('stopped');
+    expect(queue.size).toBe(1);
+    running.release();
+  });
+});
+
+describe('isTransientGattError', () => {
+  it.each([
+    [new GattTimeoutError('read MODE', 1000), true],
+    [new Error('GATT operation already in progress.'), true],
+    [new Error('GATT operation failed for unknown reason.'), true],
+    [new Error('GATT Error Unknown.'), true],
+    [new Error('GATT Server is disconnected. Cannot perform GATT operations.'), false],
+    [new DOMException('GATT operation not permitted.', 'NotSupportedError'), false],
+    ['already in progress', true],
+  ])('%s -> %s', (error, transient) => {
+    expect(isTransientGattError(error)).toBe(transient);
+  });
+});
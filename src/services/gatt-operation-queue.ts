@@ -0,0 +1,189 @@
+/**
+ * GATT Operation Queue
+ * Serializes every GATT read, write and notification start for one connection
+ *
+ * Chrome (especially on Android) rejects overlapping operations with
+ * "GATT operation already in progress", so only one operation runs at a time.
+ * - Each operation has a timeout and is retried on transient errors
+ * - User operations (writes) jump ahead of waiting background operations (config reads)
+ * - A newer operation with the same coalesce key replaces an older one still waiting
+ * - runNow() bypasses the queue entirely (emergency stop)
+ */
+
+export type GattOperationPriority = 'user' | 'background';
+
+export interface GattOperation<T> {
+  label: string; // For logs and errors, e.g. 'write MODE'
+  priority: GattOperationPriority;
+  run: () => Promise<T>;
+  coalesceKey?: string; // Pending operations with the same key are replaced by newer ones
+}
+
+export interface GattQueueOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Additional attempts after the first for transient errors
+  retryDelayMs: number; // Multiplied by the attempt number
+}
+
+export const DEFAULT_GATT_QUEUE_OPTIONS: GattQueueOptions = {
+  timeoutMs: 5000,
+  maxRetries: 2,
+  retryDelayMs: 150,
+};
+
+interface PendingOperation {
+  label: string;
+  priority: GattOperationPriority;
+  run: () => Promise<unknown>;
+  coalesceKey?: string;
+  waiters: Array<{ resolve: (value: unknown) => void; reject: (reason: unknown) => void }>;
+}
+
+/**
+ * Raised when a GATT operation does not complete within the queue timeout
+ */
+export class GattTimeoutError extends Error {
+  constructor(label: string, timeoutMs: number) {
+    super(`GATT ${label} timed out after ${timeoutMs}ms`);
+    this.name = 'GattTimeoutError';
+  }
+}
+
+/**
+ * Errors worth retrying: busy stack, unspecified GATT failures and timeouts
+ * A disconnected server is not transient (reconnect handles that)
+ */
+export function isTransientGattError(error: unknown): boolean {
+  if (error instanceof GattTimeoutError) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /already in progress|unknown reason|GATT Error Unknown/i.test(message);
+}
+
+export class GattOperationQueue {
+  private pending: PendingOperation[] = [];
+  private running = false;
+
+  constructor(private readonly options: GattQueueOptions = DEFAULT_GATT_QUEUE_OPTIONS) {}
+
+  /**
+   * Queue an operation; resolves with its result once it has run
+   */
+  enqueue<T>(operation: GattOperation<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const waiter = { resolve: resolve as (value: unknown) => void, reject };
+
+      // Replace an older operation still waiting for the same target
+      if (operation.coalesceKey) {
+        const existing = this.pending.find(op => op.coalesceKey === operation.coalesceKey);
+        if (existing) {
+          existing.label = operation.label;
+          existing.run = operation.run;
+          existing.waiters.push(waiter);
+          return;
+        }
+      }
+
+      const entry: PendingOperation = {
+        label: operation.label,
+        priority: operation.priority,
+        run: operation.run,
+        coalesceKey: operation.coalesceKey,
+        waiters: [waiter],
+      };
+
+      // User operations go ahead of every waiting background operation
+      const firstBackground = operation.priority === 'user'
+        ? this.pending.findIndex(op => op.priority === 'background')
+        : -1;
+      if (firstBackground === -1) {
+        this.pending.push(entry);
+      } else {
+        this.pending.splice(firstBackground, 0, entry);
+      }
+
+      this.processNext();
+    });
+  }
+
+  /**
+   * Run an operation right away, without waiting for the operation already running
+   * (emergency stop: a stuck read can take timeout × attempts to give up)
+   * The browser may reject the overlap as "already in progress"; that is retried like any transient error
+   */
+  runNow<T>(operation: Pick<GattOperation<T>, 'label' | 'run'>): Promise<T> {
+    return this.runWithRetry({
+      label: operation.label,
+      priority: 'user',
+      run: operation.run,
+      waiters: [],
+    }) as Promise<T>;
+  }
+
+  /**
+   * Reject every waiting operation (e.g. on disconnect)
+   * The operation currently running is left to finish or time out
+   */
+  clear(reason: Error): void {
+    const dropped = this.pending;
+    this.pending = [];
+    dropped.forEach(op => op.waiters.forEach(waiter => waiter.reject(reason)));
+  }
+
+  /**
+   * Number of operations waiting (excluding the one running)
+   */
+  get size(): number {
+    return this.pending.length;
+  }
+
+  private async processNext(): Promise<void> {
+    if (this.running) return;
+
+    const op = this.pending.shift();
+    if (!op) return;
+
+    this.running = true;
+    try {
+      const result = await this.runWithRetry(op);
+      op.waiters.forEach(waiter => waiter.resolve(result));
+    } catch (error) {
+      op.waiters.forEach(waiter => waiter.reject(error));
+    } finally {
+      this.running = false;
+      this.processNext();
+    }
+  }
+
+  private async runWithRetry(op: PendingOperation): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.runWithTimeout(op);
+      } catch (error) {
+        if (attempt >= this.options.maxRetries || !isTransientGattError(error)) {
+          throw error;
+        }
+        console.warn(`GATT ${op.label} failed (attempt ${attempt + 1}), retrying:`, error);
+        await new Promise(resolve => setTimeout(resolve, this.options.retryDelayMs * (attempt + 1)));
+      }
+    }
+  }
+
+  private runWithTimeout(op: PendingOperation): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new GattTimeoutError(op.label, this.options.timeoutMs));
+      }, this.options.timeoutMs);
+
+      op.run().then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
@@ -5,12 +5,13 @@
  */
 
 const DB_NAME = 'mlehaptics-pwa-db';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
 
 // Object store names
 export const STORE_NAMES = {
   PWA_SETTINGS: 'pwa-settings',
   DEVICE_PRESETS: 'device-presets',
+  DEVICE_REGISTRY: 'device-registry',
 } as const;
 
 export class IndexedDBService {
@@ -35,11 +36,30 @@ export class IndexedDBService {
       };
 
       request.onsuccess = () => {
-        this.db = request.result;
+        const db = request.result;
+        this.db = db;
+
+        // Another tab opened a newer version: close so its upgrade isn't blocked by this tab
+        db.onversionchange = () => {
+          console.warn('IndexedDB is being upgraded by another tab, closing this connection');
+          db.close();
+          if (this.db === db) {
+            this.db = null;
+            this.initPromise = null;
+          }
+        };
+
         console.log('IndexedDB initialized successfully');
         resolve();
       };
 
+      // Another tab still has an older version open and didn't close it. Fail instead of waiting
+      // indefinitely; if that tab closes later, the open completes and onsuccess sets this.db
+      request.onblocked = () => {
+        console.error('IndexedDB upgrade blocked by another open tab');
+        reject(new Error('IndexedDB upgrade is blocked by another tab of this app. Close or reload the other tabs.'));
+      };
+
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
         console.log('IndexedDB upgrade needed, creating object stores...');
@@ -55,6 +75,12 @@ export class IndexedDBService {
           db.createObjectStore(STORE_NAMES.DEVICE_PRESETS, { keyPath: 'id' });
           console.log('Created object store:', STORE_NAMES.DEVICE_PRESETS);
         }
+
+        // Create Device Registry store (one record per device id, added in v2)
+        if (!db.objectStoreNames.contains(STORE_NAMES.DEVICE_REGISTRY)) {
+          db.createObjectStore(STORE_NAMES.DEVICE_REGISTRY, { keyPath: 'id' });
+          console.log('Created object store:', STORE_NAMES.DEVICE_REGISTRY);
+        }
       };
     });
 
@@ -0,0 +1,109 @@
+/**
+ * Known Devices Service
+ * Lists devices this origin was already granted (navigator.bluetooth.getDevices())
+ * and watches their advertisements to show which ones are nearby
+ *
+ * getDevices()/watchAdvertisements() are newer Web Bluetooth APIs; browsers without
+ * them (or with the permissions backend disabled) just get an empty list.
+ */
+
+export interface KnownDevice {
+  id: string;
+  name: string;
+  nearby: boolean | null; // Advertised recently; null if advertisements can't be watched
+  rssi: number | null; // Signal strength of the last advertisement (dBm)
+}
+
+// A device counts as nearby for this long after its last advertisement
+const NEARBY_TIMEOUT_MS = 10000;
+
+export class KnownDevicesService {
+  isSupported(): boolean {
+    return typeof navigator.bluetooth?.getDevices === 'function';
+  }
+
+  /**
+   * Devices this origin has permission for (empty if unsupported)
+   */
+  async getDevices(): Promise<BluetoothDevice[]> {
+    if (!this.isSupported()) return [];
+    try {
+      return await navigator.bluetooth.getDevices();
+    } catch (error) {
+      console.warn('getDevices() failed:', error);
+      return [];
+    }
+  }
+
+  async findDevice(deviceId: string): Promise<BluetoothDevice | null> {
+    const devices = await this.getDevices();
+    return devices.find(device => device.id === deviceId) ?? null;
+  }
+
+  /**
+   * List known devices and keep the list updated as advertisements arrive
+   * Stop watching before connecting; some platforms won't connect while scanning
+   * @param callback Called with the full list on every change
+   * @returns Function that stops watching
+   */
+  watch(callback: (devices: KnownDevice[]) => void): () => void {
+    const controller = new AbortController();
+    const lastSeen = new Map<string, { timestamp: number; rssi: number | null }>();
+    const watching = new Set<string>();
+    let devices: BluetoothDevice[] = [];
+
+    const emit = () => {
+      if (controller.signal.aborted) return;
+      const now = Date.now();
+      callback(devices.map(device => {
+        const seen = lastSeen.get(device.id);
+        const nearby = seen !== undefined && now - seen.timestamp < NEARBY_TIMEOUT_MS;
+        return {
+          id: device.id,
+          name: device.name ?? 'Unknown Device',
+          nearby: watching.has(device.id) ? nearby : null,
+          rssi: nearby ? seen.rssi : null,
+        };
+      }));
+    };
+
+    const handleAdvertisement = (event: Event) => {
+      const advertisement = event as BluetoothAdvertisingEvent;
+      lastSeen.set(advertisement.device.id, { timestamp: Date.now(), rssi: advertisement.rssi ?? null });
+      emit();
+    };
+
+    const start = async () => {
+      devices = await this.getDevices();
+      if (controller.signal.aborted) return;
+      emit();
+
+      for (const device of devices) {
+        if (typeof device.watchAdvertisements !== 'function') continue;
+        device.addEventListener('advertisementreceived', handleAdvertisement);
+        try {
+          await device.watchAdvertisements({ signal: controller.signal });
+          watching.add(device.id);
+        } catch (error) {
+          if (controller.signal.aborted) return;
+          console.warn(`Cannot watch advertisements from ${device.name ?? device.id}:`, error);
+        }
+      }
+      emit();
+    };
+
+    start();
+
+    // Re-evaluate so devices that stopped advertising drop out of "nearby"
+    const expiryTimer = window.setInterval(emit, NEARBY_TIMEOUT_MS / 2);
+
+    return () => {
+      controller.abort();
+      clearInterval(expiryTimer);
+      devices.forEach(device => device.removeEventListener('advertisementreceived', handleAdvertisement));
+    };
+  }
+}
+
+// Singleton instance
+export const knownDevicesService = new KnownDevicesService();
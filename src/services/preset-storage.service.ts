@@ -5,12 +5,18 @@
  */
 
 import { indexedDBService, STORE_NAMES } from './indexeddb.service';
-import { MotorMode } from './ble-config.service';
+import { tabSyncService } from './tab-sync.service';
+import { validateCharacteristicValue } from './characteristic-codec';
+import {
+  CHARACTERISTIC_SCHEMA,
+  DeviceConfig,
+  MotorMode,
+  PRESET_CHARACTERISTIC_KEYS,
+} from '../types/characteristic.types';
 import {
   DevicePreset,
   PresetConfig,
   PresetExport,
-  PRESET_VALIDATION_BOUNDS,
 } from '../types/preset.types';
 
 const LEGACY_STORAGE_KEY = 'mlehaptics-device-presets';
@@ -85,6 +91,23 @@ const DEFAULT_PRESETS: Omit<DevicePreset, 'id' | 'createdAt'>[] = [
 
 export class PresetStorageService {
   private useFallback = false;
+  private changeListeners: Set<() => void> = new Set();
+
+  constructor() {
+    // Presets saved, deleted or imported in another tab
+    tabSyncService.on('presetsChanged', () => this.notifyListeners(false));
+  }
+
+  /**
+   * Subscribe to preset list changes (this tab or another tab)
+   * @returns Unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
 
   /**
    * Initialize storage with migration and default presets
@@ -261,6 +284,7 @@ export class PresetStorageService {
       }
     }
 
+    this.notifyListeners();
     return preset;
   }
 
@@ -277,11 +301,13 @@ export class PresetStorageService {
       }
 
       this.saveToStorageFallback(filtered);
+      this.notifyListeners();
       return true;
     }
 
     try {
       await indexedDBService.delete(STORE_NAMES.DEVICE_PRESETS, id);
+      this.notifyListeners();
       return true;
     } catch (error) {
       console.error('Failed to delete from IndexedDB:', error);
@@ -307,100 +333,37 @@ export class PresetStorageService {
   }
 
   /**
-   * Validate preset configuration against device bounds
+   * Validate preset configuration against the characteristic schema ranges
    */
   validateConfig(config: PresetConfig): { valid: boolean; errors: string[] } {
     const errors: string[] = [];
 
-    // Validate motor mode
-    if (
-      config.mode < PRESET_VALIDATION_BOUNDS.motorMode.min ||
-      config.mode > PRESET_VALIDATION_BOUNDS.motorMode.max
-    ) {
-      errors.push(`Motor mode must be between ${PRESET_VALIDATION_BOUNDS.motorMode.min} and ${PRESET_VALIDATION_BOUNDS.motorMode.max}`);
-    }
-
-    // Validate custom frequency
-    if (
-      config.customFrequency < PRESET_VALIDATION_BOUNDS.customFrequency.min ||
-      config.customFrequency > PRESET_VALIDATION_BOUNDS.customFrequency.max
-    ) {
-      errors.push(`Custom frequency must be between ${PRESET_VALIDATION_BOUNDS.customFrequency.min} and ${PRESET_VALIDATION_BOUNDS.customFrequency.max}`);
-    }
-
-    // Validate custom duty cycle
-    if (
-      config.customDutyCycle < PRESET_VALIDATION_BOUNDS.customDutyCycle.min ||
-      config.customDutyCycle > PRESET_VALIDATION_BOUNDS.customDutyCycle.max
-    ) {
-      errors.push(`Custom duty cycle must be between ${PRESET_VALIDATION_BOUNDS.customDutyCycle.min}% and ${PRESET_VALIDATION_BOUNDS.customDutyCycle.max}%`);
-    }
-
-    // Validate per-mode intensities
-    const modeIntensityFields = [
-      { field: 'mode0Intensity', bounds: PRESET_VALIDATION_BOUNDS.mode0Intensity, label: 'Mode 0 (0.5Hz)' },
-      { field: 'mode1Intensity', bounds: PRESET_VALIDATION_BOUNDS.mode1Intensity, label: 'Mode 1 (1.0Hz)' },
-      { field: 'mode2Intensity', bounds: PRESET_VALIDATION_BOUNDS.mode2Intensity, label: 'Mode 2 (1.5Hz)' },
-      { field: 'mode3Intensity', bounds: PRESET_VALIDATION_BOUNDS.mode3Intensity, label: 'Mode 3 (2.0Hz)' },
-      { field: 'mode4Intensity', bounds: PRESET_VALIDATION_BOUNDS.mode4Intensity, label: 'Mode 4 (Custom)' },
-    ] as const;
-
-    for (const { field, bounds, label } of modeIntensityFields) {
-      const value = config[field];
-      if (value < bounds.min || value > bounds.max) {
-        errors.push(`${label} intensity must be between ${bounds.min}% and ${bounds.max}%`);
-      }
-    }
-
-    // Validate LED color mode
-    if (
-      config.ledColorMode < PRESET_VALIDATION_BOUNDS.ledColorMode.min ||
-      config.ledColorMode > PRESET_VALIDATION_BOUNDS.ledColorMode.max
-    ) {
-      errors.push(`LED color mode must be ${PRESET_VALIDATION_BOUNDS.ledColorMode.min} or ${PRESET_VALIDATION_BOUNDS.ledColorMode.max}`);
-    }
-
-    // Validate LED palette index
-    if (
-      config.ledPaletteIndex < PRESET_VALIDATION_BOUNDS.ledPaletteIndex.min ||
-      config.ledPaletteIndex > PRESET_VALIDATION_BOUNDS.ledPaletteIndex.max
-    ) {
-      errors.push(`LED palette index must be between ${PRESET_VALIDATION_BOUNDS.ledPaletteIndex.min} and ${PRESET_VALIDATION_BOUNDS.ledPaletteIndex.max}`);
-    }
-
-    // Validate LED custom RGB
-    for (let i = 0; i < 3; i++) {
-      if (
-        config.ledCustomRGB[i] < PRESET_VALIDATION_BOUNDS.ledCustomRGB.min ||
-        config.ledCustomRGB[i] > PRESET_VALIDATION_BOUNDS.ledCustomRGB.max
-      ) {
-        errors.push(`LED RGB values must be between ${PRESET_VALIDATION_BOUNDS.ledCustomRGB.min} and ${PRESET_VALIDATION_BOUNDS.ledCustomRGB.max}`);
-        break;
+    for (const key of PRESET_CHARACTERISTIC_KEYS) {
+      const field = CHARACTERISTIC_SCHEMA[key].field;
+      const error = validateCharacteristicValue(key, config[field]);
+      if (error) {
+        errors.push(error);
       }
     }
 
-    // Validate LED brightness
-    if (
-      config.ledBrightness < PRESET_VALIDATION_BOUNDS.ledBrightness.min ||
-      config.ledBrightness > PRESET_VALIDATION_BOUNDS.ledBrightness.max
-    ) {
-      errors.push(`LED brightness must be between ${PRESET_VALIDATION_BOUNDS.ledBrightness.min}% and ${PRESET_VALIDATION_BOUNDS.ledBrightness.max}%`);
-    }
-
-    // Validate session duration
-    if (
-      config.sessionDuration < PRESET_VALIDATION_BOUNDS.sessionDuration.min ||
-      config.sessionDuration > PRESET_VALIDATION_BOUNDS.sessionDuration.max
-    ) {
-      errors.push(`Session duration must be between ${PRESET_VALIDATION_BOUNDS.sessionDuration.min}s and ${PRESET_VALIDATION_BOUNDS.sessionDuration.max}s`);
-    }
-
     return {
       valid: errors.length === 0,
       errors,
     };
   }
 
+  /**
+   * Extract the preset fields from a full device configuration
+   */
+  toPresetConfig(config: DeviceConfig): PresetConfig {
+    return Object.fromEntries(
+      PRESET_CHARACTERISTIC_KEYS.map(key => {
+        const field = CHARACTERISTIC_SCHEMA[key].field;
+        return [field, config[field]];
+      })
+    ) as PresetConfig;
+  }
+
   /**
    * Export all presets to JSON
    */
@@ -481,6 +444,16 @@ export class PresetStorageService {
     };
   }
 
+  /**
+   * @param broadcast Also tell the other tabs (false for changes received from them)
+   */
+  private notifyListeners(broadcast = true): void {
+    this.changeListeners.forEach(listener => listener());
+    if (broadcast) {
+      tabSyncService.broadcast('presetsChanged', undefined);
+    }
+  }
+
   /**
    * Save presets array to localStorage (fallback method)
    */
@@ -2,9 +2,11 @@
  * PWA Settings Service
  * Manages application-level settings (separate from device presets)
  * Uses IndexedDB for storage with fallback to localStorage
+ * Changes are broadcast to the app's other open tabs, which apply them without reloading
  */
 
 import { indexedDBService, STORE_NAMES } from './indexeddb.service';
+import { tabSyncService } from './tab-sync.service';
 import {
   PWASettings,
   PWASettingsUpdate,
@@ -19,11 +21,28 @@ const FALLBACK_STORAGE_KEY = 'mlehaptics-pwa-settings';
 
 type ChangeListener = (settings: PWASettings) => void;
 
+/**
+ * Fill in settings added after the stored copy was saved
+ */
+const withDefaults = (settings: PWASettings): PWASettings => ({
+  ...settings,
+  ui: { ...DEFAULT_PWA_SETTINGS.ui, ...settings.ui },
+  ble: { ...DEFAULT_PWA_SETTINGS.ble, ...settings.ble },
+});
+
 export class PWASettingsService {
   private cachedSettings: PWASettings | null = null;
   private changeListeners: Set<ChangeListener> = new Set();
   private useFallback = false;
 
+  constructor() {
+    // Another tab already saved these; just take them over
+    tabSyncService.on('settingsChanged', (settings) => {
+      this.cachedSettings = settings;
+      this.notifyListeners(settings, false);
+    });
+  }
+
   /**
    * Initialize settings - load from storage or create defaults
    */
@@ -42,8 +61,8 @@ export class PWASettingsService {
         await indexedDBService.put(STORE_NAMES.PWA_SETTINGS, settings);
       }
 
-      this.cachedSettings = settings;
-      return settings;
+      this.cachedSettings = withDefaults(settings);
+      return this.cachedSettings;
     } catch (error) {
       console.warn('IndexedDB failed, falling back to localStorage:', error);
       this.useFallback = true;
@@ -146,6 +165,24 @@ export class PWASettingsService {
       );
     }
 
+    // Validate connection timeouts
+    if (
+      settings.ble.connectTimeoutMs < PWA_SETTINGS_BOUNDS.connectTimeoutMs.min ||
+      settings.ble.connectTimeoutMs > PWA_SETTINGS_BOUNDS.connectTimeoutMs.max
+    ) {
+      errors.push(
+        `Connect timeout must be between ${PWA_SETTINGS_BOUNDS.connectTimeoutMs.min}ms and ${PWA_SETTINGS_BOUNDS.connectTimeoutMs.max}ms`
+      );
+    }
+    if (
+      settings.ble.discoveryTimeoutMs < PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.min ||
+      settings.ble.discoveryTimeoutMs > PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.max
+    ) {
+      errors.push(
+        `Discovery timeout must be between ${PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.min}ms and ${PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.max}ms`
+      );
+    }
+
     // Validate theme
     if (!['light', 'dark', 'auto'].includes(settings.ui.theme)) {
       errors.push('Theme must be "light", "dark", or "auto"');
@@ -191,13 +228,13 @@ export class PWASettingsService {
 
     try {
       // Reconstruct full settings object
-      const imported: PWASettings = {
+      const imported: PWASettings = withDefaults({
         id: SETTINGS_ID,
         version: data.settings.version,
         ui: data.settings.ui,
         ble: data.settings.ble,
         updatedAt: Date.now(),
-      };
+      });
 
       // Validate
       const validation = this.validateSettings(imported);
@@ -232,8 +269,9 @@ export class PWASettingsService {
 
   /**
    * Notify all listeners of settings change
+   * @param broadcast Also tell the other tabs (false for changes received from them)
    */
-  private notifyListeners(settings: PWASettings): void {
+  private notifyListeners(settings: PWASettings, broadcast = true): void {
     this.changeListeners.forEach((listener) => {
       try {
         listener(settings);
@@ -241,6 +279,9 @@ export class PWASettingsService {
         console.error('Settings change listener error:', error);
       }
     });
+    if (broadcast) {
+      tabSyncService.broadcast('settingsChanged', settings);
+    }
   }
 
   /**
@@ -267,7 +308,7 @@ export class PWASettingsService {
     try {
       const data = localStorage.getItem(FALLBACK_STORAGE_KEY);
       if (data) {
-        const settings = JSON.parse(data) as PWASettings;
+        const settings = withDefaults(JSON.parse(data) as PWASettings);
         this.cachedSettings = settings;
         return settings;
       }
@@ -0,0 +1,71 @@
+/**
+ * Raw Value Format
+ * Shows and parses characteristic payloads the app has no schema for (GATT explorer)
+ * Pure functions, like characteristic-codec.ts
+ */
+
+import { BLEOperationError } from './ble-errors';
+import { formatBytes, toByteArray } from './traffic-recorder';
+
+export type RawValueFormat = 'hex' | 'utf8' | 'uint' | 'int';
+
+export const RAW_VALUE_FORMAT_LABELS: Record<RawValueFormat, string> = {
+  hex: 'Hex',
+  utf8: 'UTF-8',
+  uint: 'Unsigned int (LE)',
+  int: 'Signed int (LE)',
+};
+
+/**
+ * Little-endian integer of any width (BigInt, so 64-bit counters don't lose precision)
+ */
+function toLittleEndianInt(bytes: number[], signed: boolean): bigint {
+  let value = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << 8n) | BigInt(bytes[i]);
+  }
+  const bits = BigInt(bytes.length * 8);
+  if (signed && bytes.length > 0 && bytes[bytes.length - 1] & 0x80) {
+    value -= 1n << bits;
+  }
+  return value;
+}
+
+/**
+ * Format a payload for display; empty payloads show as "(empty)"
+ */
+export function formatRawValue(data: DataView | Uint8Array, format: RawValueFormat): string {
+  const bytes = toByteArray(data);
+  if (bytes.length === 0) return '(empty)';
+
+  switch (format) {
+    case 'hex':
+      return formatBytes(bytes);
+    case 'utf8':
+      return new TextDecoder().decode(new Uint8Array(bytes));
+    case 'uint':
+      return toLittleEndianInt(bytes, false).toString();
+    case 'int':
+      return toLittleEndianInt(bytes, true).toString();
+  }
+}
+
+/**
+ * Parse hex typed by the user: "01 ff", "01ff", "0x01, 0xff" and "01:ff" are all accepted
+ * @throws BLEOperationError('invalid-value') for anything else
+ */
+export function parseHexBytes(text: string): Uint8Array {
+  const digits = text.replace(/0x/gi, '').replace(/[\s,:-]/g, '');
+  if (!/^[0-9a-f]*$/i.test(digits)) {
+    throw new BLEOperationError('invalid-value', { message: 'Hex values may only contain 0-9 and a-f.' });
+  }
+  if (digits.length % 2 !== 0) {
+    throw new BLEOperationError('invalid-value', { message: 'Hex values need two digits per byte.' });
+  }
+
+  const bytes = new Uint8Array(digits.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,171 @@
+/**
+ * Standard Services Client
+ * Battery Service and Device Information Service, discovered by BLEConfigService while connecting
+ *
+ * Both are optional. Device Information is read once on connect (the strings don't change);
+ * the Battery Service stands in for BATTERY_LEVEL on firmware without the custom characteristic.
+ */
+
+import { GattOperationQueue } from './gatt-operation-queue';
+import { CharacteristicKey } from '../types/characteristic.types';
+import {
+  BATTERY_SERVICE_CHARACTERISTICS,
+  BATTERY_SERVICE_UUID,
+  BatteryServiceKey,
+  DEVICE_INFORMATION_CHARACTERISTICS,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  DeviceInformation,
+} from '../types/standard-services.types';
+import { TrafficOperationRecorder } from '../types/traffic.types';
+import { ConfigTransport, GattServiceChannel, TransportValueListener } from '../types/transport.types';
+
+const DEVICE_INFORMATION_KEYS = Object.keys(DEVICE_INFORMATION_CHARACTERISTICS) as (keyof DeviceInformation)[];
+
+/**
+ * Read/notify access to one characteristic, wherever it lives
+ */
+export interface CharacteristicSource {
+  read(): Promise<DataView>;
+  startNotifications(listener: TransportValueListener): Promise<void>;
+  stopNotifications(): Promise<void>;
+}
+
+export class StandardServicesClient {
+  private batteryChannel: GattServiceChannel<BatteryServiceKey> | null = null;
+  private deviceInformationChannel: GattServiceChannel<keyof DeviceInformation> | null = null;
+  private deviceInformation: DeviceInformation | null = null;
+
+  /**
+   * Look for both services and read the Device Information strings
+   * GATT operations share the Configuration Service queue and traffic log
+   * @param signal Connect attempt; once aborted, discovery stops without keeping what it found
+   */
+  async discover(
+    transport: ConfigTransport,
+    operationQueue: GattOperationQueue,
+    recordOperation: TrafficOperationRecorder,
+    signal?: AbortSignal
+  ): Promise<void> {
+    this.reset();
+    if (!transport.openService) return;
+
+    const battery = await operationQueue.enqueue({
+      label: 'open Battery Service',
+      priority: 'background',
+      run: () => transport.openService!(BATTERY_SERVICE_UUID, BATTERY_SERVICE_CHARACTERISTICS),
+    });
+    signal?.throwIfAborted();
+    if (battery) {
+      const found = await operationQueue.enqueue({
+        label: 'discover Battery Service characteristics',
+        priority: 'background',
+        run: () => battery.discover(['BATTERY_LEVEL']),
+      });
+      signal?.throwIfAborted();
+      if (found.length > 0) this.batteryChannel = battery;
+    }
+
+    const deviceInformation = await operationQueue.enqueue({
+      label: 'open Device Information Service',
+      priority: 'background',
+      run: () => transport.openService!(DEVICE_INFORMATION_SERVICE_UUID, DEVICE_INFORMATION_CHARACTERISTICS),
+    });
+    signal?.throwIfAborted();
+    if (deviceInformation) {
+      const found = await operationQueue.enqueue({
+        label: 'discover Device Information characteristics',
+        priority: 'background',
+        run: () => deviceInformation.discover(DEVICE_INFORMATION_KEYS),
+      });
+      signal?.throwIfAborted();
+      if (found.length > 0) {
+        const info = await this.readDeviceInformation(
+          deviceInformation,
+          found,
+          operationQueue,
+          recordOperation,
+          signal
+        );
+        signal?.throwIfAborted();
+        this.deviceInformationChannel = deviceInformation;
+        this.deviceInformation = info;
+      }
+    }
+
+    console.log('Standard services:', {
+      battery: this.batteryChannel !== null,
+      deviceInformation: this.deviceInformation,
+    });
+  }
+
+  private async readDeviceInformation(
+    channel: GattServiceChannel<keyof DeviceInformation>,
+    keys: (keyof DeviceInformation)[],
+    operationQueue: GattOperationQueue,
+    recordOperation: TrafficOperationRecorder,
+    signal?: AbortSignal
+  ): Promise<DeviceInformation> {
+    const info: DeviceInformation = {
+      manufacturer: null,
+      model: null,
+      serialNumber: null,
+      hardwareRevision: null,
+      firmwareRevision: null,
+    };
+    for (const key of keys) {
+      signal?.throwIfAborted();
+      try {
+        const view = await operationQueue.enqueue({
+          label: `read Device Information ${key}`,
+          priority: 'background',
+          run: () => recordOperation('read', key, () => channel.read(key)),
+        });
+        // Firmware often pads fixed-size strings with NULs
+        info[key] = new TextDecoder().decode(view).replace(/\0+$/, '').trim() || null;
+      } catch (error) {
+        console.warn(`Failed to read Device Information ${key}:`, error);
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Forget both services (disconnect or link loss; handles are stale afterwards)
+   */
+  reset(): void {
+    this.batteryChannel = null;
+    this.deviceInformationChannel = null;
+    this.deviceInformation = null;
+  }
+
+  /**
+   * Device Information strings read on connect, null if the device has no Device Information Service
+   */
+  getDeviceInformation(): DeviceInformation | null {
+    return this.deviceInformation;
+  }
+
+  /**
+   * Standard characteristic that carries the same value as a Configuration Service characteristic
+   * (0x2A19 Battery Level for BATTERY_LEVEL, 0x2A26 Firmware Revision for LOCAL_FIRMWARE_VERSION)
+   */
+  getFallback(key: CharacteristicKey): CharacteristicSource | null {
+    if (key === 'BATTERY_LEVEL' && this.batteryChannel) {
+      const channel = this.batteryChannel;
+      return {
+        read: () => channel.read('BATTERY_LEVEL'),
+        startNotifications: (listener) => channel.startNotifications('BATTERY_LEVEL', listener),
+        stopNotifications: () => channel.stopNotifications('BATTERY_LEVEL'),
+      };
+    }
+    if (key === 'LOCAL_FIRMWARE_VERSION' && this.deviceInformation?.firmwareRevision && this.deviceInformationChannel) {
+      const channel = this.deviceInformationChannel;
+      return {
+        read: () => channel.read('firmwareRevision'),
+        startNotifications: () => Promise.reject(new Error('Firmware Revision does not notify')),
+        stopNotifications: async () => {},
+      };
+    }
+    return null;
+  }
+}
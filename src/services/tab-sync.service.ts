@@ -0,0 +1,99 @@
+/**
+ * Tab Sync Service
+ * Cross-tab coordination when the PWA is open in several tabs or windows
+ * - BroadcastChannel messages: settings and preset changes, live device state for mirrors
+ * - Web Locks "owner" lock: only the tab holding it may connect to a device
+ *
+ * Without BroadcastChannel or Web Locks (older browsers) every tab works on its own, as before.
+ */
+
+import { TypedEventEmitter } from './typed-event-emitter';
+import { TabSyncEvents } from '../types/tab-sync.types';
+
+const CHANNEL_NAME = 'mlehaptics-pwa';
+const OWNER_LOCK_NAME = 'mlehaptics-ble-owner';
+
+interface TabSyncMessage<E extends keyof TabSyncEvents = keyof TabSyncEvents> {
+  event: E;
+  payload: TabSyncEvents[E];
+}
+
+export class TabSyncService {
+  private channel: BroadcastChannel | null =
+    typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  private events = new TypedEventEmitter<TabSyncEvents>();
+  private releaseOwnerLock: (() => void) | null = null;
+
+  constructor() {
+    if (this.channel) {
+      this.channel.onmessage = (message: MessageEvent<TabSyncMessage>) => {
+        const { event, payload } = message.data;
+        this.events.emit(event, payload);
+      };
+    }
+  }
+
+  /**
+   * Send to every other tab (the sending tab doesn't receive its own messages)
+   */
+  broadcast<E extends keyof TabSyncEvents>(event: E, payload: TabSyncEvents[E]): void {
+    if (!this.channel) return;
+    try {
+      const message: TabSyncMessage<E> = { event, payload };
+      this.channel.postMessage(message);
+    } catch (error) {
+      console.warn(`Failed to broadcast ${event} to other tabs:`, error);
+    }
+  }
+
+  /**
+   * Subscribe to messages from other tabs
+   * @returns Unsubscribe function
+   */
+  on<E extends keyof TabSyncEvents>(event: E, callback: (payload: TabSyncEvents[E]) => void): () => void {
+    return this.events.on(event, callback);
+  }
+
+  /**
+   * Take the BLE owner lock without waiting
+   * @returns false if another tab holds it; true if acquired (or Web Locks is unavailable)
+   */
+  async acquireOwnerLock(): Promise<boolean> {
+    if (this.releaseOwnerLock) return true;
+    if (!navigator.locks) return true;
+
+    return new Promise<boolean>((resolve) => {
+      navigator.locks
+        .request(OWNER_LOCK_NAME, { ifAvailable: true }, (lock) => {
+          if (!lock) {
+            resolve(false);
+            return;
+          }
+          resolve(true);
+          // Held until releaseOwnerLock() (or the tab closes)
+          return new Promise<void>((release) => {
+            this.releaseOwnerLock = release;
+          });
+        })
+        .catch((error) => {
+          console.warn('Web Locks request failed, connecting without tab coordination:', error);
+          resolve(true);
+        });
+    });
+  }
+
+  releaseOwnership(): void {
+    this.releaseOwnerLock?.();
+    this.releaseOwnerLock = null;
+  }
+
+  /**
+   * Whether this tab holds the BLE owner lock
+   */
+  isOwner(): boolean {
+    return this.releaseOwnerLock !== null;
+  }
+}
+
+// Singleton instance
+export const tabSyncService = new TabSyncService();
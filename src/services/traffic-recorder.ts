@@ -0,0 +1,90 @@
+/**
+ * BLE Traffic Recorder
+ * Keeps the most recent GATT reads, writes, notifications and link events in memory
+ * and exports them as JSON or CSV for bug reports
+ *
+ * The log survives disconnects (the interesting part is usually just before one).
+ */
+
+import { TrafficLogEntry } from '../types/traffic.types';
+
+const DEFAULT_MAX_ENTRIES = 2000;
+
+const CSV_COLUMNS = ['timestamp', 'type', 'key', 'bytes', 'value', 'durationMs', 'error'] as const;
+
+/**
+ * Bytes of a DataView/Uint8Array as a plain array (safe to keep after the buffer is reused)
+ */
+export function toByteArray(data: DataView | Uint8Array): number[] {
+  return Array.from(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+}
+
+/**
+ * Format bytes as space-separated hex, e.g. "ff 00 7f"
+ */
+export function formatBytes(bytes: number[] | null): string {
+  return bytes ? bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' ') : '';
+}
+
+const escapeCsv = (field: string): string =>
+  /[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+
+export class TrafficRecorder {
+  private entries: TrafficLogEntry[] = [];
+  private nextId = 1;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  record(entry: Omit<TrafficLogEntry, 'id'>): void {
+    this.entries.push({ ...entry, id: this.nextId++ });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Recorded entries, oldest first
+   */
+  getEntries(): readonly TrafficLogEntry[] {
+    return this.entries;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Subscribe to new entries and clears
+   * @returns Unsubscribe function
+   */
+  onChange(callback: () => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  toJSON(entries: readonly TrafficLogEntry[] = this.entries): string {
+    return JSON.stringify(
+      entries.map(entry => ({ ...entry, timestamp: new Date(entry.timestamp).toISOString() })),
+      null,
+      2
+    );
+  }
+
+  toCSV(entries: readonly TrafficLogEntry[] = this.entries): string {
+    const rows = entries.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.type,
+      entry.key ?? '',
+      formatBytes(entry.bytes),
+      entry.value === undefined ? '' : JSON.stringify(entry.value),
+      entry.durationMs === null ? '' : entry.durationMs.toFixed(1),
+      entry.error ?? '',
+    ].map(escapeCsv).join(','));
+    return [CSV_COLUMNS.join(','), ...rows].join('\n');
+  }
+}
@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DemoTransport } from './demo.transport';
+import { BILATERAL_SERVICE_LAYOUT, LEGACY_BILATERAL_SERVICE_LAYOUT } from '../../types/bilateral.types';
+import {
+  BATTERY_SERVICE_CHARACTERISTICS,
+  BATTERY_SERVICE_UUID,
+  DEVICE_INFORMATION_CHARACTERISTICS,
+  DEVICE_INFORMATION_SERVICE_UUID,
+} from '../../types/standard-services.types';
+
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  await vi.advanceTimersByTimeAsync(100);
+  return promise;
+}
+
+describe('DemoTransport.openService', () => {
+  let transport: DemoTransport;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    transport = new DemoTransport();
+    await settle(transport.connect());
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('resolves the caller\'s keys through their UUIDs', async () => {
+    const channel = await settle(transport.openService(DEVICE_INFORMATION_SERVICE_UUID, {
+      maker: DEVICE_INFORMATION_CHARACTERISTICS.manufacturer,
+      revision: DEVICE_INFORMATION_CHARACTERISTICS.hardwareRevision,
+    }));
+    if (!channel) throw new Error('Device Information Service missing');
+
+    await expect(channel.discover(['maker', 'revision'])).resolves.toEqual(['maker', 'revision']);
+    const maker = await settle(channel.read('maker'));
+    expect(new TextDecoder().decode(maker)).toBe('MLEHaptics');
+  });
+
+  it('leaves out characteristics the simulated service does not have', async () => {
+    const channel = await settle(transport.openService(DEVICE_INFORMATION_SERVICE_UUID, {
+      model: DEVICE_INFORMATION_CHARACTERISTICS.model,
+      batteryLevel: BATTERY_SERVICE_CHARACTERISTICS.BATTERY_LEVEL,
+    }));
+
+    await expect(channel?.discover(['model', 'batteryLevel'])).resolves.toEqual(['model']);
+    await expect(channel?.read('batteryLevel')).rejects.toMatchObject({ name: 'NotFoundError' });
+  });
+
+  it('reads and writes the bilateral service by its layout', async () => {
+    const channel = await settle(
+      transport.openService(BILATERAL_SERVICE_LAYOUT.serviceUuid, BILATERAL_SERVICE_LAYOUT.characteristics)
+    );
+    if (!channel) throw new Error('Bilateral Control Service missing');
+
+    await settle(channel.write('STIMULATION_PATTERN', new Uint8Array([2])));
+    const pattern = await settle(channel.read('STIMULATION_PATTERN'));
+    expect(pattern.getUint8(0)).toBe(2);
+  });
+
+  it('returns null for services the demo device does not have', async () => {
+    await expect(settle(transport.openService(BATTERY_SERVICE_UUID, BATTERY_SERVICE_CHARACTERISTICS))).resolves.toBeNull();
+    await expect(settle(
+      transport.openService(LEGACY_BILATERAL_SERVICE_LAYOUT.serviceUuid, LEGACY_BILATERAL_SERVICE_LAYOUT.characteristics)
+    )).resolves.toBeNull();
+  });
+});
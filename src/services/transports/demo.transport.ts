@@ -0,0 +1,458 @@
+/**
+ * Demo Transport
+ * Simulated MLEHaptics device implementing the full Configuration Service (AD032)
+ * Used for demos and UI development without hardware
+ *
+ * Simulated behavior:
+ * - Bounds-checked writes (out-of-range or read-only writes are rejected like the firmware does)
+ * - SESSION_TIME counts up once per second (notified every 60s)
+ * - Battery drains faster at higher motor intensity
+ * - MODE notifications as if the device button was pressed
+ * - A peer device that connects/disconnects (CLIENT_BATTERY, PEER_FIRMWARE_VERSION)
+ * - Bilateral Control Service (AD030): start/stop commands, pattern, role follows the peer
+ * - Device Information Service (serial number, hardware revision)
+ * - BULK_CONFIG: every preset field in one packed read/write, applied all-or-nothing
+ */
+
+import {
+  decodeCharacteristicValue,
+  encodeCharacteristicValue,
+  validateCharacteristicValue,
+} from '../characteristic-codec';
+import { decodeBulkConfig, encodeBulkConfig } from '../bulk-config-codec';
+import {
+  BULK_CONFIG_CHARACTERISTICS,
+  BulkConfigKey,
+  CHARACTERISTIC_SCHEMA,
+  CONFIG_SERVICE_UUID,
+  CharacteristicKey,
+  CharacteristicValue,
+  MotorMode,
+  PRESET_CHARACTERISTIC_KEYS,
+  PresetCharacteristicKey,
+} from '../../types/characteristic.types';
+import {
+  BILATERAL_SERVICE_LAYOUT,
+  BilateralCharacteristicKey,
+  BilateralCommand,
+  DeviceRole,
+  StimulationPattern,
+} from '../../types/bilateral.types';
+import type { PresetConfig } from '../../types/preset.types';
+import {
+  DEVICE_INFORMATION_CHARACTERISTICS,
+  DEVICE_INFORMATION_SERVICE_UUID,
+  DeviceInformation,
+} from '../../types/standard-services.types';
+import {
+  ConfigTransport,
+  GattServiceChannel,
+  TransportValueListener,
+} from '../../types/transport.types';
+
+// Firmware limits enforced by the simulated device come from CHARACTERISTIC_SCHEMA
+type DemoState = { [K in CharacteristicKey]: CharacteristicValue<K> };
+
+/**
+ * A simulated secondary service; the device side names its characteristics by its own keys,
+ * callers of openService() reach them by UUID like on real hardware
+ */
+interface DemoService<S extends string> {
+  characteristics: Record<S, string>; // UUID per characteristic the simulated firmware exposes
+  read(key: S): Promise<DataView>;
+  write(key: S, value: Uint8Array): Promise<void>;
+}
+
+const DEMO_DEVICE_ID = 'demo-device';
+const DEMO_DEVICE_NAME = 'MLEHaptics Demo';
+const DEMO_FIRMWARE_VERSION = 'v1.0.0 (Dec 15 2025 10:30:00)';
+const DEMO_DEVICE_INFORMATION: DeviceInformation = {
+  manufacturer: 'MLEHaptics',
+  model: 'Demo',
+  serialNumber: 'DEMO-000001',
+  hardwareRevision: 'Simulated',
+  firmwareRevision: DEMO_FIRMWARE_VERSION,
+};
+
+// Simulation tuning (per 1-second tick)
+const IDLE_DRAIN_PER_SEC = 0.002; // % per second with motors off
+const MOTOR_DRAIN_PER_SEC = 0.02; // % per second at 100% intensity
+const LED_DRAIN_PER_SEC = 0.002; // % per second with LED on
+const SESSION_TIME_NOTIFY_INTERVAL_SEC = 60;
+const BUTTON_PRESS_INTERVAL_SEC = { min: 90, max: 240 };
+const PEER_TOGGLE_INTERVAL_SEC = { min: 60, max: 180 };
+const LATENCY_MS = { min: 15, max: 40 };
+
+const randomBetween = (min: number, max: number): number =>
+  Math.floor(min + Math.random() * (max - min + 1));
+
+export class DemoTransport implements ConfigTransport {
+  readonly deviceId = DEMO_DEVICE_ID;
+  readonly deviceName = DEMO_DEVICE_NAME;
+
+  private connected = false;
+  private tickTimer: number | null = null;
+  private notificationListeners: Map<CharacteristicKey, TransportValueListener> = new Map();
+  private disconnectListeners: Set<() => void> = new Set();
+
+  // Simulated device state (AD032 first-boot defaults, LED on for a livelier demo)
+  private state: DemoState = {
+    MODE: MotorMode.MODE_1HZ_25,
+    CUSTOM_FREQUENCY: 100,
+    CUSTOM_DUTY_CYCLE: 50,
+    MODE_4_INTENSITY: 55,
+    MODE_0_INTENSITY: 65,
+    MODE_1_INTENSITY: 65,
+    MODE_2_INTENSITY: 80,
+    MODE_3_INTENSITY: 80,
+    LED_ENABLE: true,
+    LED_COLOR_MODE: 1,
+    LED_PALETTE_INDEX: 0,
+    LED_CUSTOM_RGB: [255, 0, 0],
+    LED_BRIGHTNESS: 20,
+    SESSION_DURATION: 1200,
+    SESSION_TIME: 0,
+    BATTERY_LEVEL: 92,
+    CLIENT_BATTERY: 0,
+    LOCAL_FIRMWARE_VERSION: DEMO_FIRMWARE_VERSION,
+    PEER_FIRMWARE_VERSION: '',
+  };
+
+  // Fractional charge so slow drain rates accumulate between whole percents
+  private batteryCharge = 92;
+  private peerBatteryCharge = 0;
+  private secondsUntilButtonPress = randomBetween(BUTTON_PRESS_INTERVAL_SEC.min, BUTTON_PRESS_INTERVAL_SEC.max);
+  private secondsUntilPeerToggle = randomBetween(PEER_TOGGLE_INTERVAL_SEC.min, PEER_TOGGLE_INTERVAL_SEC.max);
+
+  // Simulated Bilateral Control Service state
+  private stimulating = true;
+  private stimulationPattern = StimulationPattern.BILATERAL_FIXED;
+  private sequenceNumber = 0;
+
+  async connect(): Promise<void> {
+    await this.simulateLatency();
+    this.connected = true;
+    this.startSimulation();
+    console.log('[Demo] Simulated device connected');
+  }
+
+  async disconnect(): Promise<void> {
+    this.connected = false;
+    this.stopSimulation();
+    this.notificationListeners.clear();
+    this.disconnectListeners.clear();
+    console.log('[Demo] Simulated device disconnected');
+  }
+
+  dropLink(): void {
+    this.connected = false;
+    this.stopSimulation();
+    this.notificationListeners.clear();
+    console.log('[Demo] Simulated link dropped');
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async discover(keys: readonly CharacteristicKey[]): Promise<CharacteristicKey[]> {
+    this.ensureConnected();
+    return keys.filter(key => key in CHARACTERISTIC_SCHEMA);
+  }
+
+  async read(key: CharacteristicKey): Promise<DataView> {
+    this.ensureConnected();
+    await this.simulateLatency();
+    return this.encode(key);
+  }
+
+  async write(key: CharacteristicKey, value: Uint8Array): Promise<void> {
+    this.ensureConnected();
+    await this.simulateLatency();
+
+    if (CHARACTERISTIC_SCHEMA[key].access !== 'read-write') {
+      throw new DOMException(`GATT operation not permitted: ${key} is read-only`, 'NotSupportedError');
+    }
+
+    const decoded = decodeCharacteristicValue(key, new DataView(value.buffer, value.byteOffset, value.byteLength));
+    if (validateCharacteristicValue(key, decoded)) {
+      console.warn(`[Demo] Rejected out-of-range write to ${key}:`, decoded);
+      throw new DOMException(`GATT operation failed: value out of range for ${key}`, 'NotSupportedError');
+    }
+
+    this.state = { ...this.state, [key]: decoded };
+    console.log(`[Demo] ${key} =`, decoded);
+  }
+
+  async startNotifications(key: CharacteristicKey, listener: TransportValueListener): Promise<void> {
+    this.ensureConnected();
+    await this.simulateLatency();
+    this.notificationListeners.set(key, listener);
+  }
+
+  async stopNotifications(key: CharacteristicKey): Promise<void> {
+    this.notificationListeners.delete(key);
+  }
+
+  async openService<K extends string>(
+    serviceUuid: string,
+    characteristicUuids: Record<K, string>
+  ): Promise<GattServiceChannel<K> | null> {
+    this.ensureConnected();
+    await this.simulateLatency();
+    if (serviceUuid === BILATERAL_SERVICE_LAYOUT.serviceUuid) {
+      return this.createServiceChannel(this.createBilateralService(), characteristicUuids);
+    }
+    if (serviceUuid === DEVICE_INFORMATION_SERVICE_UUID) {
+      return this.createServiceChannel(this.createDeviceInformationService(), characteristicUuids);
+    }
+    if (serviceUuid === CONFIG_SERVICE_UUID) {
+      return this.createServiceChannel(this.createBulkConfigService(), characteristicUuids);
+    }
+    return null;
+  }
+
+  onDisconnect(callback: () => void): () => void {
+    this.disconnectListeners.add(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.disconnectListeners.delete(callback);
+    };
+  }
+
+  private startSimulation(): void {
+    this.stopSimulation();
+    this.tickTimer = window.setInterval(() => this.tick(), 1000);
+  }
+
+  private stopSimulation(): void {
+    if (this.tickTimer !== null) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  /**
+   * Advance the simulation by one second
+   */
+  private tick(): void {
+    // Session time counts up until the target duration is reached
+    const sessionTime = this.state.SESSION_TIME;
+    if (sessionTime < this.state.SESSION_DURATION) {
+      this.state.SESSION_TIME = sessionTime + 1;
+      if ((sessionTime + 1) % SESSION_TIME_NOTIFY_INTERVAL_SEC === 0) {
+        this.notify('SESSION_TIME');
+      }
+    }
+
+    // Battery drain scales with the active mode's motor intensity
+    const drain = this.getDrainPerSecond();
+    this.batteryCharge = Math.max(0, this.batteryCharge - drain);
+    this.updateBattery('BATTERY_LEVEL', this.batteryCharge);
+
+    if (this.peerBatteryCharge > 0) {
+      this.peerBatteryCharge = Math.max(1, this.peerBatteryCharge - drain);
+      this.updateBattery('CLIENT_BATTERY', this.peerBatteryCharge);
+
+      // One sync packet per second to the peer while stimulating
+      if (this.stimulating) {
+        this.sequenceNumber = (this.sequenceNumber + 1) % 65536;
+      }
+    }
+
+    // Device button press cycles through the modes
+    if (--this.secondsUntilButtonPress <= 0) {
+      this.secondsUntilButtonPress = randomBetween(BUTTON_PRESS_INTERVAL_SEC.min, BUTTON_PRESS_INTERVAL_SEC.max);
+      this.state.MODE = (this.state.MODE + 1) % 5;
+      console.log('[Demo] Button pressed, mode =', this.state.MODE);
+      this.notify('MODE');
+    }
+
+    // Peer device joins or leaves
+    if (--this.secondsUntilPeerToggle <= 0) {
+      this.secondsUntilPeerToggle = randomBetween(PEER_TOGGLE_INTERVAL_SEC.min, PEER_TOGGLE_INTERVAL_SEC.max);
+      this.togglePeer();
+    }
+  }
+
+  private getDrainPerSecond(): number {
+    const intensity = this.state[`MODE_${this.state.MODE}_INTENSITY` as const];
+    const ledOn = this.state.LED_ENABLE;
+    return IDLE_DRAIN_PER_SEC + (intensity / 100) * MOTOR_DRAIN_PER_SEC + (ledOn ? LED_DRAIN_PER_SEC : 0);
+  }
+
+  private updateBattery(key: 'BATTERY_LEVEL' | 'CLIENT_BATTERY', charge: number): void {
+    const level = Math.round(charge);
+    if (level !== this.state[key]) {
+      this.state[key] = level;
+      this.notify(key);
+    }
+  }
+
+  private togglePeer(): void {
+    if (this.peerBatteryCharge > 0) {
+      console.log('[Demo] Peer device disconnected');
+      this.peerBatteryCharge = 0;
+      this.state.CLIENT_BATTERY = 0;
+      this.state.PEER_FIRMWARE_VERSION = '';
+    } else {
+      console.log('[Demo] Peer device connected');
+      this.peerBatteryCharge = randomBetween(60, 100);
+      this.state.CLIENT_BATTERY = Math.round(this.peerBatteryCharge);
+      this.state.PEER_FIRMWARE_VERSION = DEMO_FIRMWARE_VERSION;
+    }
+    this.notify('CLIENT_BATTERY');
+  }
+
+  private notify(key: CharacteristicKey): void {
+    const listener = this.notificationListeners.get(key);
+    if (listener) {
+      listener(this.encode(key));
+    }
+  }
+
+  private encode(key: CharacteristicKey): DataView {
+    const bytes = encodeCharacteristicValue(key, this.state[key]);
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Channel to a simulated service, resolving the caller's keys through their UUIDs
+   * Characteristics the simulated firmware doesn't have are left out by discover(), like the real transport
+   */
+  private createServiceChannel<S extends string, K extends string>(
+    service: DemoService<S>,
+    characteristicUuids: Record<K, string>
+  ): GattServiceChannel<K> {
+    const serviceKeys = Object.keys(service.characteristics) as S[];
+    const findServiceKey = (key: K): S | undefined => {
+      const uuid = characteristicUuids[key].toLowerCase();
+      return serviceKeys.find(candidate => service.characteristics[candidate] === uuid);
+    };
+    const serviceKeyFor = (key: K): S => {
+      const serviceKey = findServiceKey(key);
+      if (!serviceKey) {
+        throw new DOMException(`No characteristic matching UUID ${characteristicUuids[key]}`, 'NotFoundError');
+      }
+      return serviceKey;
+    };
+
+    return {
+      discover: async (keys) => keys.filter(key => findServiceKey(key) !== undefined),
+      read: async (key) => service.read(serviceKeyFor(key)),
+      write: async (key, value) => service.write(serviceKeyFor(key), value),
+      startNotifications: async () => {
+        throw new DOMException('GATT operation not permitted', 'NotSupportedError');
+      },
+      stopNotifications: async () => {},
+    };
+  }
+
+  private createBilateralService(): DemoService<BilateralCharacteristicKey> {
+    const uint8View = (value: number) => new DataView(new Uint8Array([value]).buffer);
+
+    return {
+      characteristics: BILATERAL_SERVICE_LAYOUT.characteristics,
+      read: async (key) => {
+        this.ensureConnected();
+        await this.simulateLatency();
+        switch (key) {
+          case 'STIMULATION_PATTERN':
+            return uint8View(this.stimulationPattern);
+          case 'DEVICE_ROLE':
+            return uint8View(this.peerBatteryCharge > 0 ? DeviceRole.SERVER : DeviceRole.STANDALONE);
+          case 'SEQUENCE_NUMBER': {
+            const view = new DataView(new ArrayBuffer(2));
+            view.setUint16(0, this.sequenceNumber, true);
+            return view;
+          }
+          default:
+            throw new DOMException(`GATT operation not permitted: ${key} is write-only`, 'NotSupportedError');
+        }
+      },
+      write: async (key, value) => {
+        this.ensureConnected();
+        await this.simulateLatency();
+        const byte = value[0];
+        switch (key) {
+          case 'COMMAND':
+            if (byte === BilateralCommand.START) this.stimulating = true;
+            if (byte === BilateralCommand.STOP || byte === BilateralCommand.EMERGENCY) this.stimulating = false;
+            break;
+          case 'STIMULATION_PATTERN':
+            this.stimulationPattern = byte;
+            break;
+          case 'EMERGENCY_SHUTDOWN':
+            this.stimulating = false;
+            break;
+          default:
+            throw new DOMException(`GATT operation not permitted: ${key} is read-only`, 'NotSupportedError');
+        }
+        console.log(`[Demo] Bilateral ${key} =`, byte, this.stimulating ? '(stimulating)' : '(stopped)');
+      },
+    };
+  }
+
+  private createBulkConfigService(): DemoService<BulkConfigKey> {
+    return {
+      characteristics: BULK_CONFIG_CHARACTERISTICS,
+      read: async () => {
+        this.ensureConnected();
+        await this.simulateLatency();
+        const fields = Object.fromEntries(
+          PRESET_CHARACTERISTIC_KEYS.map(key => [CHARACTERISTIC_SCHEMA[key].field, this.state[key]])
+        );
+        return new DataView(encodeBulkConfig(fields as PresetConfig).buffer);
+      },
+      write: async (_key, value) => {
+        this.ensureConnected();
+        await this.simulateLatency();
+
+        let config: PresetConfig;
+        try {
+          config = decodeBulkConfig(new DataView(value.buffer, value.byteOffset, value.byteLength));
+        } catch (error) {
+          throw new DOMException(`GATT operation failed: ${(error as Error).message}`, 'NotSupportedError');
+        }
+
+        // Validate every field before applying any, like the firmware
+        for (const key of PRESET_CHARACTERISTIC_KEYS) {
+          const fieldValue = config[CHARACTERISTIC_SCHEMA[key].field] as CharacteristicValue<PresetCharacteristicKey>;
+          if (validateCharacteristicValue(key, fieldValue)) {
+            console.warn(`[Demo] Rejected bulk config write, ${key} out of range:`, fieldValue);
+            throw new DOMException(`GATT operation failed: value out of range for ${key}`, 'NotSupportedError');
+          }
+        }
+        for (const key of PRESET_CHARACTERISTIC_KEYS) {
+          this.state = { ...this.state, [key]: config[CHARACTERISTIC_SCHEMA[key].field] };
+        }
+        console.log('[Demo] BULK_CONFIG =', config);
+      },
+    };
+  }
+
+  private createDeviceInformationService(): DemoService<keyof DeviceInformation> {
+    return {
+      characteristics: DEVICE_INFORMATION_CHARACTERISTICS,
+      read: async (key) => {
+        this.ensureConnected();
+        await this.simulateLatency();
+        return new DataView(new TextEncoder().encode(DEMO_DEVICE_INFORMATION[key] ?? '').buffer);
+      },
+      write: async (key) => {
+        throw new DOMException(`GATT operation not permitted: ${key} is read-only`, 'NotSupportedError');
+      },
+    };
+  }
+
+  private ensureConnected(): void {
+    if (!this.connected) {
+      throw new DOMException('GATT Server is disconnected. Cannot perform GATT operations.', 'NetworkError');
+    }
+  }
+
+  private simulateLatency(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, randomBetween(LATENCY_MS.min, LATENCY_MS.max)));
+  }
+}
@@ -0,0 +1,479 @@
+/**
+ * Web Bluetooth Transport
+ * ConfigTransport implementation on top of navigator.bluetooth
+ * Holds the Android-specific connect/disconnect workarounds
+ */
+
+import { CharacteristicKey } from '../../types/characteristic.types';
+import {
+  ConfigTransport,
+  GattServiceChannel,
+  RawGattCharacteristic,
+  RawGattService,
+  TransportValueListener,
+} from '../../types/transport.types';
+
+// Characteristic User Description descriptor (0x2901)
+// Literal rather than BluetoothUUID.getDescriptor(): this module also loads in browsers without Web Bluetooth
+const USER_DESCRIPTION_UUID = '00002901-0000-1000-8000-00805f9b34fb';
+
+// On Chrome's Web Bluetooth GATT blocklist: getCharacteristic() always rejects them with a SecurityError
+const BLOCKLISTED_CHARACTERISTIC_UUIDS: ReadonlySet<string> = new Set([
+  '00002a25-0000-1000-8000-00805f9b34fb', // Serial Number String
+]);
+
+/**
+ * Channel to a secondary service (e.g. Bilateral Control) on an already-connected device
+ */
+class WebBluetoothServiceChannel<K extends string> implements GattServiceChannel<K> {
+  private characteristics: Map<K, BluetoothRemoteGATTCharacteristic> = new Map();
+  private characteristicEventListeners: Map<K, (event: Event) => void> = new Map();
+
+  constructor(
+    private readonly service: BluetoothRemoteGATTService,
+    private readonly characteristicUuids: Record<K, string>
+  ) {}
+
+  async discover(keys: readonly K[]): Promise<K[]> {
+    const found: K[] = [];
+    for (const key of keys) {
+      if (BLOCKLISTED_CHARACTERISTIC_UUIDS.has(this.characteristicUuids[key].toLowerCase())) continue;
+      try {
+        this.characteristics.set(key, await this.service.getCharacteristic(this.characteristicUuids[key]));
+        found.push(key);
+      } catch {
+        // Missing characteristics are reported by the service client
+      }
+    }
+    return found;
+  }
+
+  async read(key: K): Promise<DataView> {
+    return await this.getCharacteristic(key).readValue();
+  }
+
+  async write(key: K, value: Uint8Array): Promise<void> {
+    await this.getCharacteristic(key).writeValue(new Uint8Array(value));
+  }
+
+  async startNotifications(key: K, listener: TransportValueListener): Promise<void> {
+    const char = this.getCharacteristic(key);
+    await char.startNotifications();
+
+    const eventListener = (event: Event) => {
+      const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+      if (value) listener(value);
+    };
+    this.characteristicEventListeners.set(key, eventListener);
+    char.addEventListener('characteristicvaluechanged', eventListener);
+  }
+
+  async stopNotifications(key: K): Promise<void> {
+    const char = this.characteristics.get(key);
+    const listener = this.characteristicEventListeners.get(key);
+    this.characteristicEventListeners.delete(key);
+
+    if (char && listener) {
+      char.removeEventListener('characteristicvaluechanged', listener);
+      try {
+        await char.stopNotifications();
+      } catch (error) {
+        console.warn(`Failed to cleanup notifications for ${key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Whether this channel uses the characteristic (so the explorer must not stop its notifications)
+   */
+  usesCharacteristic(uuid: string): boolean {
+    return Object.values<string>(this.characteristicUuids).some(known => known.toLowerCase() === uuid);
+  }
+
+  /**
+   * Stop every notification (intentional disconnect)
+   */
+  async stopAllNotifications(): Promise<void> {
+    for (const key of [...this.characteristicEventListeners.keys()]) {
+      await this.stopNotifications(key);
+    }
+  }
+
+  private getCharacteristic(key: K): BluetoothRemoteGATTCharacteristic {
+    const char = this.characteristics.get(key);
+    if (!char) throw new Error(`Characteristic ${key} not found`);
+    return char;
+  }
+}
+
+/**
+ * Characteristic opened by the GATT explorer, addressed by UUID
+ */
+class WebBluetoothRawCharacteristic implements RawGattCharacteristic {
+  private eventListener: ((event: Event) => void) | null = null;
+
+  constructor(
+    private readonly char: BluetoothRemoteGATTCharacteristic,
+    readonly descriptorUuids: readonly string[],
+    readonly userDescription: string | null,
+    private readonly usedByApp: boolean
+  ) {}
+
+  get uuid(): string {
+    return this.char.uuid;
+  }
+
+  get properties(): RawGattCharacteristic['properties'] {
+    const { read, write, writeWithoutResponse, notify, indicate } = this.char.properties;
+    return { read, write, writeWithoutResponse, notify, indicate };
+  }
+
+  async read(): Promise<DataView> {
+    return await this.char.readValue();
+  }
+
+  async write(value: Uint8Array, withResponse: boolean): Promise<void> {
+    const bytes = new Uint8Array(value);
+    if (withResponse) {
+      await this.char.writeValueWithResponse(bytes);
+    } else {
+      await this.char.writeValueWithoutResponse(bytes);
+    }
+  }
+
+  async startNotifications(listener: TransportValueListener): Promise<void> {
+    await this.stopNotifications();
+    await this.char.startNotifications();
+
+    this.eventListener = (event: Event) => {
+      const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+      if (value) listener(value);
+    };
+    this.char.addEventListener('characteristicvaluechanged', this.eventListener);
+  }
+
+  async stopNotifications(): Promise<void> {
+    if (!this.eventListener) return;
+    this.char.removeEventListener('characteristicvaluechanged', this.eventListener);
+    this.eventListener = null;
+
+    // The app's own subscription on the same characteristic must keep working
+    if (!this.usedByApp) {
+      await this.char.stopNotifications();
+    }
+  }
+}
+
+export class WebBluetoothTransport implements ConfigTransport {
+  private server: BluetoothRemoteGATTServer | null = null;
+  private service: BluetoothRemoteGATTService | null = null;
+  private characteristics: Map<CharacteristicKey, BluetoothRemoteGATTCharacteristic> = new Map();
+
+  // Track event listeners for proper cleanup
+  private characteristicEventListeners: Map<CharacteristicKey, (event: Event) => void> = new Map();
+  private disconnectListeners: Set<() => void> = new Set();
+  private intentionalDisconnect = false;
+
+  // Secondary services opened on the current connection
+  private serviceChannels: WebBluetoothServiceChannel<string>[] = [];
+
+  constructor(
+    private readonly device: BluetoothDevice,
+    private readonly serviceUuid: string,
+    private readonly characteristicUuids: Record<CharacteristicKey, string>
+  ) {
+    if (!device.gatt) {
+      throw new Error('GATT not supported');
+    }
+
+    // Setup disconnect event listener once per device
+    // This fires for both intentional and unexpected disconnects
+    this.device.addEventListener('gattserverdisconnected', this.handleGattServerDisconnected);
+  }
+
+  /**
+   * Show the browser device chooser and wrap the selected device
+   */
+  static async request(
+    requestOptions: RequestDeviceOptions,
+    serviceUuid: string,
+    characteristicUuids: Record<CharacteristicKey, string>
+  ): Promise<WebBluetoothTransport> {
+    const device = await navigator.bluetooth.requestDevice(requestOptions);
+    return new WebBluetoothTransport(device, serviceUuid, characteristicUuids);
+  }
+
+  get deviceId(): string {
+    return this.device.id;
+  }
+
+  get deviceName(): string {
+    return this.device.name ?? 'Unknown Device';
+  }
+
+  async connect(): Promise<void> {
+    this.intentionalDisconnect = false;
+    this.resetGattState();
+
+    // Connect to GATT server
+    this.server = await this.device.gatt!.connect();
+    this.abortIfDisconnectRequested();
+
+    // Get Configuration Service
+    this.service = await this.server.getPrimaryService(this.serviceUuid);
+    this.abortIfDisconnectRequested();
+  }
+
+  /**
+   * disconnect() was called while connect() was waiting (cancel or timeout): don't leave the link open
+   */
+  private abortIfDisconnectRequested(): void {
+    if (!this.intentionalDisconnect) return;
+    this.device.gatt?.disconnect();
+    this.resetGattState();
+    throw new DOMException('Connection attempt aborted', 'AbortError');
+  }
+
+  async disconnect(): Promise<void> {
+    this.intentionalDisconnect = true;
+
+    if (!this.device.gatt?.connected) {
+      console.log('Device already disconnected');
+      // Also aborts a gatt.connect() still pending (half-open connection)
+      this.device.gatt?.disconnect();
+      this.cleanup();
+      return;
+    }
+
+    // Step 1: Stop all notifications and remove characteristic event listeners
+    // This is critical for Android to properly release BLE resources
+    console.log('Cleaning up notifications and event listeners...');
+    for (const key of [...this.characteristicEventListeners.keys()]) {
+      await this.stopNotifications(key);
+    }
+    for (const channel of this.serviceChannels) {
+      await channel.stopAllNotifications();
+    }
+
+    // Step 2: Perform a final characteristic read to ensure BLE connection is active
+    // This is a workaround for Android Chrome where gatt.disconnect() doesn't always
+    // send the disconnect packet if the connection is "idle"
+    const wakeChar = this.characteristics.values().next().value;
+    if (wakeChar) {
+      try {
+        console.log('Performing final read to activate BLE connection...');
+        await wakeChar.readValue();
+        console.log('Final read completed');
+      } catch (readError) {
+        console.warn('Final read failed (connection may already be unstable):', readError);
+      }
+    }
+
+    // Step 3: Small delay to let the read complete and BLE stack stabilize
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    // Step 4: Disconnect GATT server
+    // After the characteristic read, the BLE stack should now send the disconnect packet
+    console.log('Sending disconnect to GATT server...');
+    this.device.gatt.disconnect();
+
+    // Step 5: Wait to ensure disconnect packet is sent by BLE stack
+    // Android needs this delay to actually transmit the disconnect
+    console.log('Waiting for disconnect packet to be sent...');
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    this.cleanup();
+  }
+
+  /**
+   * Android can keep gatt.connected true on a dead link; without this, connect() would reuse it
+   */
+  dropLink(): void {
+    // The caller already treats the link as lost: don't report it again
+    this.intentionalDisconnect = true;
+    this.device.gatt?.disconnect();
+    this.resetGattState();
+  }
+
+  isConnected(): boolean {
+    return this.device.gatt?.connected ?? false;
+  }
+
+  async discover(keys: readonly CharacteristicKey[]): Promise<CharacteristicKey[]> {
+    if (!this.service) throw new Error('Service not initialized');
+
+    const found: CharacteristicKey[] = [];
+    for (const key of keys) {
+      try {
+        const char = await this.service.getCharacteristic(this.characteristicUuids[key]);
+        this.characteristics.set(key, char);
+        found.push(key);
+      } catch {
+        // Missing characteristics are reported by BLEConfigService
+      }
+    }
+    return found;
+  }
+
+  async read(key: CharacteristicKey): Promise<DataView> {
+    return await this.getCharacteristic(key).readValue();
+  }
+
+  async write(key: CharacteristicKey, value: Uint8Array): Promise<void> {
+    // Copy into a plain ArrayBuffer-backed view (writeValue rejects shared buffers)
+    await this.getCharacteristic(key).writeValue(new Uint8Array(value));
+  }
+
+  async startNotifications(key: CharacteristicKey, listener: TransportValueListener): Promise<void> {
+    const char = this.getCharacteristic(key);
+    await char.startNotifications();
+
+    // Create and store event listener for cleanup
+    const eventListener = (event: Event) => {
+      const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+      if (value) listener(value);
+    };
+    this.characteristicEventListeners.set(key, eventListener);
+    char.addEventListener('characteristicvaluechanged', eventListener);
+  }
+
+  async stopNotifications(key: CharacteristicKey): Promise<void> {
+    const char = this.characteristics.get(key);
+    const listener = this.characteristicEventListeners.get(key);
+    this.characteristicEventListeners.delete(key);
+
+    if (char && listener) {
+      try {
+        // Remove event listener first
+        char.removeEventListener('characteristicvaluechanged', listener);
+
+        // Stop notifications if still connected
+        if (this.device.gatt?.connected) {
+          await char.stopNotifications();
+        }
+      } catch (error) {
+        console.warn(`Failed to cleanup notifications for ${key}:`, error);
+      }
+    }
+  }
+
+  async openService<K extends string>(
+    serviceUuid: string,
+    characteristicUuids: Record<K, string>
+  ): Promise<GattServiceChannel<K> | null> {
+    if (!this.server) throw new Error('GATT server not connected');
+
+    let service: BluetoothRemoteGATTService;
+    try {
+      service = await this.server.getPrimaryService(serviceUuid);
+    } catch {
+      // Not present (or not listed in optionalServices when the device was requested)
+      return null;
+    }
+
+    const channel = new WebBluetoothServiceChannel(service, characteristicUuids);
+    this.serviceChannels.push(channel);
+    return channel;
+  }
+
+  /**
+   * Only services listed in the requestDevice filters/optionalServices are visible to Web Bluetooth
+   */
+  async exploreServices(): Promise<RawGattService[]> {
+    if (!this.server) throw new Error('GATT server not connected');
+
+    const services: RawGattService[] = [];
+    for (const service of await this.server.getPrimaryServices()) {
+      let chars: BluetoothRemoteGATTCharacteristic[] = [];
+      try {
+        chars = await service.getCharacteristics();
+      } catch {
+        // Service without characteristics
+      }
+
+      const characteristics: RawGattCharacteristic[] = [];
+      for (const char of chars) {
+        characteristics.push(await this.describeCharacteristic(char));
+      }
+      services.push({ uuid: service.uuid, characteristics });
+    }
+    return services;
+  }
+
+  private async describeCharacteristic(char: BluetoothRemoteGATTCharacteristic): Promise<RawGattCharacteristic> {
+    let descriptors: BluetoothRemoteGATTDescriptor[] = [];
+    try {
+      descriptors = await char.getDescriptors();
+    } catch {
+      // No descriptors (getDescriptors rejects rather than returning an empty list)
+    }
+
+    let userDescription: string | null = null;
+    const userDescriptionDescriptor = descriptors.find(descriptor => descriptor.uuid === USER_DESCRIPTION_UUID);
+    if (userDescriptionDescriptor) {
+      try {
+        userDescription = new TextDecoder().decode(await userDescriptionDescriptor.readValue());
+      } catch (error) {
+        console.warn(`Failed to read user description of ${char.uuid}:`, error);
+      }
+    }
+
+    const usedByApp =
+      Object.values(this.characteristicUuids).some(uuid => uuid.toLowerCase() === char.uuid) ||
+      this.serviceChannels.some(channel => channel.usesCharacteristic(char.uuid));
+
+    return new WebBluetoothRawCharacteristic(
+      char,
+      descriptors.map(descriptor => descriptor.uuid),
+      userDescription,
+      usedByApp
+    );
+  }
+
+  onDisconnect(callback: () => void): () => void {
+    this.disconnectListeners.add(callback);
+
+    // Return unsubscribe function
+    return () => {
+      this.disconnectListeners.delete(callback);
+    };
+  }
+
+  private getCharacteristic(key: CharacteristicKey): BluetoothRemoteGATTCharacteristic {
+    const char = this.characteristics.get(key);
+    if (!char) throw new Error(`Characteristic ${key} not found`);
+    return char;
+  }
+
+  private handleGattServerDisconnected = (): void => {
+    console.log('Device disconnected (gattserverdisconnected event)');
+    this.resetGattState();
+
+    if (this.intentionalDisconnect) return;
+
+    this.disconnectListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in transport disconnect listener:', error);
+      }
+    });
+  };
+
+  /**
+   * Drop stale GATT handles (they are invalid after the link drops)
+   */
+  private resetGattState(): void {
+    this.server = null;
+    this.service = null;
+    this.characteristics.clear();
+    this.characteristicEventListeners.clear();
+    this.serviceChannels = [];
+  }
+
+  private cleanup(): void {
+    this.device.removeEventListener('gattserverdisconnected', this.handleGattServerDisconnected);
+    this.resetGattState();
+    this.disconnectListeners.clear();
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Typed Event Emitter
+ * Minimal emitter keyed by an event map (event name → payload type), so
+ * subscribing to an unknown event or mistyping a payload fails to compile
+ */
+
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [E in keyof Events]?: Set<(payload: Events[E]) => void> } = {};
+
+  /**
+   * Subscribe to an event
+   * @returns Unsubscribe function
+   */
+  on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): () => void {
+    const listeners = (this.listeners[event] ??= new Set());
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Call every listener of an event; a throwing listener doesn't stop the others
+   */
+  emit<E extends keyof Events>(event: E, payload: Events[E]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+  }
+
+  /**
+   * Remove the listeners of one event, or of every event
+   */
+  clear(event?: keyof Events): void {
+    if (event === undefined) {
+      this.listeners = {};
+    } else {
+      delete this.listeners[event];
+    }
+  }
+}
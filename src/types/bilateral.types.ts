@@ -0,0 +1,90 @@
+/**
+ * Bilateral Control Service Types (AD030)
+ * Device-to-device coordination service; the PWA uses it to start/stop
+ * stimulation, pick the stimulation pattern and show device roles
+ *
+ * AD030 originally placed the service at 6E400001-B5A3-F393-E0A9-E50E24DCCA9E
+ * (characteristics 6E400X01-...). Phase 1b firmware moved it to the project UUID
+ * base 4BCAE9BE-9829-4F0A-9E88-267DE5E70100 (characteristics ...01YY).
+ * Both layouts are probed; the project-specific one first.
+ */
+
+// Bilateral Command values (AD030 reserves 0-6; only these are named)
+export enum BilateralCommand {
+  START = 0,
+  STOP = 1,
+  SYNC = 2,
+  MODE_CHANGE = 3,
+  EMERGENCY = 4,
+  PATTERN = 5,
+}
+
+export enum StimulationPattern {
+  BILATERAL_FIXED = 0, // Standard EMDR: server forward, client reverse
+  BILATERAL_ALTERNATING = 1, // Both devices alternate direction each cycle
+  UNILATERAL = 2, // Only the server is active (control studies)
+}
+
+export enum DeviceRole {
+  SERVER = 0,
+  CLIENT = 1,
+  STANDALONE = 2,
+}
+
+export const STIMULATION_PATTERN_LABELS = {
+  [StimulationPattern.BILATERAL_FIXED]: 'Bilateral (fixed)',
+  [StimulationPattern.BILATERAL_ALTERNATING]: 'Bilateral (alternating)',
+  [StimulationPattern.UNILATERAL]: 'Unilateral',
+};
+
+export const DEVICE_ROLE_LABELS = {
+  [DeviceRole.SERVER]: 'Server',
+  [DeviceRole.CLIENT]: 'Client',
+  [DeviceRole.STANDALONE]: 'Standalone',
+};
+
+/**
+ * Characteristic ID (YY / X byte) and wire format per Bilateral Control characteristic
+ * Total Cycle Time, Motor Intensity, Session Duration and Duty Cycle duplicate the
+ * Configuration Service and are not used by the PWA
+ */
+export const BILATERAL_CHARACTERISTIC_SPECS = {
+  COMMAND: { id: 0x01, wireType: 'uint8', access: 'write', range: { min: 0, max: 6 } },
+  STIMULATION_PATTERN: { id: 0x04, wireType: 'uint8', access: 'read-write', range: { min: 0, max: 2 } },
+  DEVICE_ROLE: { id: 0x05, wireType: 'uint8', access: 'read', range: { min: 0, max: 2 } },
+  SEQUENCE_NUMBER: { id: 0x07, wireType: 'uint16', access: 'read', range: { min: 0, max: 65535 } },
+  EMERGENCY_SHUTDOWN: { id: 0x08, wireType: 'uint8', access: 'write', range: { min: 1, max: 1 } },
+} as const;
+
+export type BilateralCharacteristicKey = keyof typeof BILATERAL_CHARACTERISTIC_SPECS;
+
+export interface BilateralServiceLayout {
+  serviceUuid: string;
+  characteristics: Record<BilateralCharacteristicKey, string>;
+}
+
+const hex = (id: number): string => id.toString(16).padStart(2, '0');
+
+const buildLayout = (
+  serviceUuid: string,
+  characteristicUuid: (id: string) => string
+): BilateralServiceLayout => ({
+  serviceUuid,
+  characteristics: Object.fromEntries(
+    Object.entries(BILATERAL_CHARACTERISTIC_SPECS).map(([key, spec]) => [key, characteristicUuid(hex(spec.id))])
+  ) as Record<BilateralCharacteristicKey, string>,
+});
+
+// Phase 1b project UUID base: service 01, characteristic YY
+export const BILATERAL_SERVICE_LAYOUT = buildLayout(
+  '4bcae9be-9829-4f0a-9e88-267de5e70100',
+  (id) => `4bcae9be-9829-4f0a-9e88-267de5e701${id}`
+);
+
+// Original AD030 layout: 6E400X01 where X is the characteristic ID
+export const LEGACY_BILATERAL_SERVICE_LAYOUT = buildLayout(
+  '6e400001-b5a3-f393-e0a9-e50e24dcca9e',
+  (id) => `6e40${id}01-b5a3-f393-e0a9-e50e24dcca9e`
+);
+
+export const BILATERAL_SERVICE_LAYOUTS = [BILATERAL_SERVICE_LAYOUT, LEGACY_BILATERAL_SERVICE_LAYOUT];
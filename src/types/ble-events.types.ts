@@ -0,0 +1,60 @@
+/**
+ * BLE Service Event Types
+ * Event maps for BLEConfigService.subscribe() (characteristic values) and
+ * BLEConfigService.on() (connection status, disconnects, config changes, errors)
+ */
+
+import type { CharacteristicKey, CharacteristicValue, DeviceConfig } from './characteristic.types';
+import type { FirmwareMismatch } from './firmware.types';
+
+/**
+ * Connection status as seen by the UI
+ * 'reconnecting' means the link dropped unexpectedly and the service is retrying
+ * over the same transport/device (no chooser needed)
+ */
+export type ConnectionStatus = 'connected' | 'reconnecting' | 'disconnected';
+
+/**
+ * Connection lifecycle phase, owned by BLEConfigService (see connection-phase.ts for the allowed transitions)
+ * idle → requesting (device chooser) → connecting (GATT link) → discovering → subscribing (notifications)
+ * → reading (initial config) → ready, plus reconnecting (link lost, retrying), disconnecting and
+ * failed (the last attempt failed; otherwise the same as idle)
+ */
+export type ConnectionPhase =
+  | 'idle'
+  | 'requesting'
+  | 'connecting'
+  | 'discovering'
+  | 'subscribing'
+  | 'reading'
+  | 'ready'
+  | 'reconnecting'
+  | 'disconnecting'
+  | 'failed';
+
+/**
+ * Decoded notification value per characteristic
+ */
+export type CharacteristicEvents = { [K in CharacteristicKey]: CharacteristicValue<K> };
+
+/**
+ * Problem reported by the service outside a direct call (background work, reconnects)
+ * - warning: something optional failed; the connection is still usable
+ * - error: the user should be told (e.g. auto-reconnect gave up)
+ */
+export interface BLEServiceError {
+  operation: string; // What failed, e.g. 'reconnect', 'notifications BATTERY_LEVEL'
+  message: string; // Plain-language description for display
+  severity: 'warning' | 'error';
+  cause?: unknown;
+}
+
+export interface BLEServiceEvents {
+  connectionPhase: ConnectionPhase; // Every phase change; persists across connections
+  connectionStatus: ConnectionStatus; // Coarse view of connectionPhase; persists across connections
+  disconnect: void; // Full disconnect (user-initiated, or link loss without auto-reconnect); persists
+  firmwareMismatch: FirmwareMismatch | null; // Checked on connect and when the peer joins/leaves; persists
+  linkStale: boolean; // Liveness probe started (true) or finished (false); persists
+  config: DeviceConfig; // Config read or changed (preset load, emergency stop); cleared on disconnect
+  error: BLEServiceError; // Persists across connections
+}
@@ -0,0 +1,326 @@
+/**
+ * Configuration Service Characteristic Schema (AD032)
+ * Single source of truth for every characteristic: UUID, wire format, access and valid range
+ *
+ * Decoding/encoding, validation, DeviceConfig/PresetConfig typing and UI slider
+ * limits are all derived from CHARACTERISTIC_SCHEMA, so adding a firmware
+ * characteristic only means adding an entry here.
+ *
+ * UUID base: 4BCAE9BE-9829-4F0A-9E88-267DE5E7XXYY
+ *   XX = Service type (02 for Configuration Service)
+ *   YY = Characteristic ID (01-0C, then 0E-11 for mode intensities, 12-13 for firmware versions,
+ *        14 for the optional bulk config characteristic)
+ */
+
+// Motor modes (AD032 - Updated specification)
+export enum MotorMode {
+  MODE_05HZ_25 = 0,
+  MODE_1HZ_25 = 1,
+  MODE_15HZ_25 = 2,
+  MODE_2HZ_25 = 3,
+  MODE_CUSTOM = 4,
+}
+
+/**
+ * On-the-wire value format
+ * - uint8/uint16/uint32: unsigned integer
+ * - bool: uint8, 0 or 1
+ * - rgb: 3 × uint8 (R, G, B)
+ * - utf8: null-padded UTF-8 string
+ */
+export type WireType = 'uint8' | 'uint16' | 'uint32' | 'bool' | 'rgb' | 'utf8';
+
+export type Endianness = 'little' | 'big';
+
+export type CharacteristicAccess = 'read' | 'read-write';
+
+export interface CharacteristicRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Value accepted outside the normal range with a special meaning
+ */
+export interface CharacteristicSpecialValue {
+  value: number;
+  meaning: string;
+}
+
+export interface CharacteristicSpec {
+  uuid: string;
+  field: string; // DeviceConfig field name
+  label: string; // Human-readable name for validation messages
+  wireType: WireType;
+  endianness?: Endianness; // Multi-byte integers only (firmware is little-endian)
+  access: CharacteristicAccess;
+  notify: boolean; // Firmware sends notifications when the value changes
+  range?: CharacteristicRange; // Per component for rgb
+  unit?: string; // Appended to range bounds in messages, e.g. '%'
+  specialValues?: readonly CharacteristicSpecialValue[];
+  enumValues?: Record<string, string | number>; // TypeScript enum the value belongs to
+  preset: boolean; // Saved in device presets
+}
+
+export const CONFIG_SERVICE_UUID = '4bcae9be-9829-4f0a-9e88-267de5e70200';
+
+export const CHARACTERISTIC_SCHEMA = {
+  // MOTOR CONTROL GROUP
+  MODE: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70201',
+    field: 'mode',
+    label: 'Motor mode',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: true, // Device button changes the mode
+    range: { min: MotorMode.MODE_05HZ_25, max: MotorMode.MODE_CUSTOM },
+    enumValues: MotorMode,
+    preset: true,
+  },
+  CUSTOM_FREQUENCY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70202',
+    field: 'customFrequency',
+    label: 'Custom frequency', // Hz × 100 (0.25-2.0 Hz)
+    wireType: 'uint16',
+    endianness: 'little',
+    access: 'read-write',
+    notify: false,
+    range: { min: 25, max: 200 },
+    preset: true,
+  },
+  CUSTOM_DUTY_CYCLE: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70203',
+    field: 'customDutyCycle',
+    label: 'Custom duty cycle',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 10, max: 100 },
+    unit: '%',
+    preset: true,
+  },
+  MODE_4_INTENSITY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70204',
+    field: 'mode4Intensity',
+    label: 'Mode 4 (Custom) intensity',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 30, max: 80 },
+    unit: '%',
+    specialValues: [{ value: 0, meaning: 'LED only (motors off)' }],
+    preset: true,
+  },
+  MODE_0_INTENSITY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020e',
+    field: 'mode0Intensity',
+    label: 'Mode 0 (0.5Hz) intensity',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 50, max: 80 },
+    unit: '%',
+    preset: true,
+  },
+  MODE_1_INTENSITY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020f',
+    field: 'mode1Intensity',
+    label: 'Mode 1 (1.0Hz) intensity',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 50, max: 80 },
+    unit: '%',
+    preset: true,
+  },
+  MODE_2_INTENSITY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70210',
+    field: 'mode2Intensity',
+    label: 'Mode 2 (1.5Hz) intensity',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 70, max: 90 },
+    unit: '%',
+    preset: true,
+  },
+  MODE_3_INTENSITY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70211',
+    field: 'mode3Intensity',
+    label: 'Mode 3 (2.0Hz) intensity',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 70, max: 90 },
+    unit: '%',
+    preset: true,
+  },
+
+  // LED CONTROL GROUP
+  LED_ENABLE: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70205',
+    field: 'ledEnable',
+    label: 'LED enable',
+    wireType: 'bool',
+    access: 'read-write',
+    notify: false,
+    preset: true,
+  },
+  LED_COLOR_MODE: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70206',
+    field: 'ledColorMode',
+    label: 'LED color mode', // 0=palette, 1=custom RGB
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 0, max: 1 },
+    preset: true,
+  },
+  LED_PALETTE_INDEX: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70207',
+    field: 'ledPaletteIndex',
+    label: 'LED palette index',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 0, max: 15 },
+    preset: true,
+  },
+  LED_CUSTOM_RGB: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70208',
+    field: 'ledCustomRGB',
+    label: 'LED RGB values',
+    wireType: 'rgb',
+    access: 'read-write',
+    notify: false,
+    range: { min: 0, max: 255 },
+    preset: true,
+  },
+  LED_BRIGHTNESS: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70209',
+    field: 'ledBrightness',
+    label: 'LED brightness',
+    wireType: 'uint8',
+    access: 'read-write',
+    notify: false,
+    range: { min: 10, max: 30 },
+    unit: '%',
+    preset: true,
+  },
+
+  // STATUS/MONITORING GROUP
+  SESSION_DURATION: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020a',
+    field: 'sessionDuration',
+    label: 'Session duration', // 20-90 min
+    wireType: 'uint32',
+    endianness: 'little',
+    access: 'read-write',
+    notify: false,
+    range: { min: 1200, max: 5400 },
+    unit: 's',
+    preset: true,
+  },
+  SESSION_TIME: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020b',
+    field: 'sessionTime',
+    label: 'Session time', // Elapsed seconds
+    wireType: 'uint32',
+    endianness: 'little',
+    access: 'read',
+    notify: true,
+    preset: false,
+  },
+  BATTERY_LEVEL: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020c',
+    field: 'batteryLevel',
+    label: 'Battery level',
+    wireType: 'uint8',
+    access: 'read',
+    notify: true,
+    range: { min: 0, max: 100 },
+    unit: '%',
+    preset: false,
+  },
+  CLIENT_BATTERY: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e7020d',
+    field: 'clientBatteryLevel',
+    label: 'Client battery level', // 0 if no client connected
+    wireType: 'uint8',
+    access: 'read',
+    notify: true,
+    range: { min: 0, max: 100 },
+    unit: '%',
+    preset: false,
+  },
+
+  // FIRMWARE VERSION GROUP
+  LOCAL_FIRMWARE_VERSION: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70212',
+    field: 'localFirmwareVersion',
+    label: 'Local firmware version', // "vMAJOR.MINOR.PATCH (MMM DD YYYY HH:MM:SS)"
+    wireType: 'utf8',
+    access: 'read',
+    notify: false,
+    preset: false,
+  },
+  PEER_FIRMWARE_VERSION: {
+    uuid: '4bcae9be-9829-4f0a-9e88-267de5e70213',
+    field: 'peerFirmwareVersion',
+    label: 'Peer firmware version', // Empty if no peer connected
+    wireType: 'utf8',
+    access: 'read',
+    notify: false,
+    preset: false,
+  },
+} as const satisfies Record<string, CharacteristicSpec>;
+
+type Schema = typeof CHARACTERISTIC_SCHEMA;
+
+/**
+ * Configuration Service characteristic key (e.g. 'MODE', 'LED_CUSTOM_RGB')
+ */
+export type CharacteristicKey = keyof Schema;
+
+type WireValue<S> =
+  S extends { enumValues: infer E } ? E[keyof E]
+  : S extends { wireType: 'bool' } ? boolean
+  : S extends { wireType: 'rgb' } ? [number, number, number]
+  : S extends { wireType: 'utf8' } ? string
+  : number;
+
+/**
+ * Decoded JS value of a characteristic (e.g. CharacteristicValue<'LED_CUSTOM_RGB'> = [r, g, b])
+ */
+export type CharacteristicValue<K extends CharacteristicKey> = WireValue<Schema[K]>;
+
+/**
+ * Full device configuration, one field per characteristic
+ */
+export type DeviceConfig = {
+  -readonly [K in CharacteristicKey as Schema[K]['field']]: CharacteristicValue<K>;
+};
+
+/**
+ * Characteristics saved in device presets (writable settings, no status values)
+ */
+export type PresetCharacteristicKey = {
+  [K in CharacteristicKey]: Schema[K]['preset'] extends true ? K : never;
+}[CharacteristicKey];
+
+export const CHARACTERISTIC_KEYS = Object.keys(CHARACTERISTIC_SCHEMA) as CharacteristicKey[];
+
+export const PRESET_CHARACTERISTIC_KEYS = CHARACTERISTIC_KEYS.filter(
+  (key): key is PresetCharacteristicKey => CHARACTERISTIC_SCHEMA[key].preset
+);
+
+/**
+ * Optional packed characteristic holding every preset field in one value (layout in bulk-config-codec.ts)
+ * Not part of CHARACTERISTIC_SCHEMA: it has no DeviceConfig field of its own, and firmware without it
+ * is still fully usable through the individual characteristics
+ */
+export const BULK_CONFIG_CHARACTERISTICS = {
+  BULK_CONFIG: '4bcae9be-9829-4f0a-9e88-267de5e70214',
+} as const;
+
+export type BulkConfigKey = keyof typeof BULK_CONFIG_CHARACTERISTICS;
@@ -0,0 +1,20 @@
+/**
+ * Device Registry Types
+ * Per-device history kept across connections (keyed by Web Bluetooth device id)
+ */
+
+import type { DeviceConfig } from './characteristic.types';
+
+export interface DeviceRecord {
+  id: string; // Web Bluetooth device id (per origin; 'demo-device' for the simulator)
+  name: string; // Advertised name at the last connection
+  nickname: string | null; // User-assigned, shown instead of the advertised name
+  firstConnectedAt: number; // Unix timestamp
+  lastConnectedAt: number; // Unix timestamp
+  localFirmwareVersion: string; // Last non-empty version reported by the device
+  peerFirmwareVersion: string;
+  serialNumber: string; // Device Information Service; '' if never reported
+  hardwareRevision: string; // Device Information Service; '' if never reported
+  lastConfig: DeviceConfig | null; // Config at the last checkpoint or disconnect
+  totalConnectedMs: number;
+}
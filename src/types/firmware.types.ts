@@ -0,0 +1,37 @@
+/**
+ * Firmware Version Types
+ * Parsed firmware version strings and the features each firmware supports
+ */
+
+/**
+ * Parsed firmware version, e.g. "v1.0.0 (Dec 15 2025 10:30:00)"
+ */
+export interface FirmwareVersion {
+  raw: string; // String as reported by the device
+  major: number;
+  minor: number;
+  patch: number;
+  buildDate: Date | null; // From the firmware __DATE__/__TIME__ (build machine local time)
+}
+
+/**
+ * Features that depend on the firmware version
+ * - perModeIntensity: MODE_0-3_INTENSITY characteristics (older firmware has one intensity for all modes)
+ * - modeNotify: MODE notifies when the device button changes the mode
+ * - firmwareVersion: LOCAL/PEER_FIRMWARE_VERSION characteristics
+ * - ledOnlyIntensity: Mode 4 intensity accepts 0% (LED-only)
+ */
+export type FirmwareCapability = 'perModeIntensity' | 'modeNotify' | 'firmwareVersion' | 'ledOnlyIntensity';
+
+export type FirmwareCapabilities = Record<FirmwareCapability, boolean>;
+
+/**
+ * Local and peer units run different firmware builds (bilateral timing may drift, AD028/AD029)
+ * - behind: the unit with the older version (or older build of the same version);
+ *   'unknown' when a version string can't be parsed or the builds carry no dates
+ */
+export interface FirmwareMismatch {
+  local: string; // Raw version strings as reported
+  peer: string;
+  behind: 'local' | 'peer' | 'unknown';
+}
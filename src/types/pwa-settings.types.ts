@@ -20,6 +20,8 @@ export interface PWASettings {
     autoReconnect: boolean; // Automatically reconnect on disconnect
     reconnectDelayMs: number; // Delay before reconnect attempt (1000-10000ms)
     notificationDebounceMs: number; // Debounce for BLE notifications (50-500ms)
+    connectTimeoutMs: number; // Give up opening the GATT link after this long (5-60s)
+    discoveryTimeoutMs: number; // Per step after the link is up: discovery, notifications, config read (5-60s)
   };
   updatedAt: number; // Last update timestamp
 }
@@ -31,6 +33,8 @@ export const PWA_SETTINGS_BOUNDS = {
   debounceDelayMs: { min: 100, max: 1000, default: 500 },
   reconnectDelayMs: { min: 1000, max: 10000, default: 3000 },
   notificationDebounceMs: { min: 50, max: 500, default: 100 },
+  connectTimeoutMs: { min: 5000, max: 60000, default: 15000 },
+  discoveryTimeoutMs: { min: 5000, max: 60000, default: 20000 },
 } as const;
 
 /**
@@ -49,6 +53,8 @@ export const DEFAULT_PWA_SETTINGS: PWASettings = {
     autoReconnect: true,
     reconnectDelayMs: PWA_SETTINGS_BOUNDS.reconnectDelayMs.default,
     notificationDebounceMs: PWA_SETTINGS_BOUNDS.notificationDebounceMs.default,
+    connectTimeoutMs: PWA_SETTINGS_BOUNDS.connectTimeoutMs.default,
+    discoveryTimeoutMs: PWA_SETTINGS_BOUNDS.discoveryTimeoutMs.default,
   },
   updatedAt: Date.now(),
 };
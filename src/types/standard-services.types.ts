@@ -0,0 +1,41 @@
+/**
+ * Standard Service Types
+ * Bluetooth SIG Battery Service (0x180F) and Device Information Service (0x180A)
+ *
+ * Optional on MLEHaptics firmware. Generic BLE tools (nRF Connect, OS battery indicators) read these;
+ * the app uses them as a fallback for BATTERY_LEVEL / LOCAL_FIRMWARE_VERSION and for hardware details.
+ */
+
+/**
+ * Full UUID of a 16-bit SIG-assigned number
+ */
+const sigUuid = (id: number): string => `0000${id.toString(16).padStart(4, '0')}-0000-1000-8000-00805f9b34fb`;
+
+export const BATTERY_SERVICE_UUID = sigUuid(0x180f);
+
+export const BATTERY_SERVICE_CHARACTERISTICS = {
+  BATTERY_LEVEL: sigUuid(0x2a19), // uint8 0-100, same wire format as the custom BATTERY_LEVEL
+} as const;
+
+export type BatteryServiceKey = keyof typeof BATTERY_SERVICE_CHARACTERISTICS;
+
+export const DEVICE_INFORMATION_SERVICE_UUID = sigUuid(0x180a);
+
+/**
+ * Device Information Service strings (UTF-8); null when the firmware doesn't expose one
+ */
+export interface DeviceInformation {
+  manufacturer: string | null;
+  model: string | null;
+  serialNumber: string | null;
+  hardwareRevision: string | null;
+  firmwareRevision: string | null;
+}
+
+export const DEVICE_INFORMATION_CHARACTERISTICS: Record<keyof DeviceInformation, string> = {
+  manufacturer: sigUuid(0x2a29),
+  model: sigUuid(0x2a24),
+  serialNumber: sigUuid(0x2a25), // On Chrome's Web Bluetooth blocklist: never read on hardware, demo device only
+  hardwareRevision: sigUuid(0x2a27),
+  firmwareRevision: sigUuid(0x2a26),
+};
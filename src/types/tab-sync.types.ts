@@ -0,0 +1,25 @@
+/**
+ * Tab Sync Types
+ * Messages exchanged between tabs/windows of the PWA over BroadcastChannel
+ */
+
+import type { ConnectionPhase } from './ble-events.types';
+import type { DeviceConfig } from './characteristic.types';
+import type { PWASettings } from './pwa-settings.types';
+
+/**
+ * Live device state published by the tab that owns the connection, shown read-only in other tabs
+ */
+export interface MirroredDeviceState {
+  deviceName: string;
+  phase: ConnectionPhase;
+  config: DeviceConfig | null;
+  updatedAt: number; // Sent at least every few seconds; mirrors drop a state that stops updating
+}
+
+export interface TabSyncEvents {
+  settingsChanged: PWASettings;
+  presetsChanged: void;
+  deviceState: MirroredDeviceState | null; // null: the owner disconnected or closed
+  deviceStateRequest: void; // A newly opened tab asks the owner for the current state
+}
@@ -0,0 +1,31 @@
+/**
+ * BLE Traffic Log Types
+ * Entries recorded by BLEConfigService for field debugging and bug reports
+ */
+
+export type TrafficEventType = 'read' | 'write' | 'notify' | 'connect' | 'disconnect';
+
+export interface TrafficLogEntry {
+  id: number; // Increasing per recorder, for list keys
+  timestamp: number; // Date.now() when the event started
+  type: TrafficEventType;
+  // Characteristic key ('MODE', 'BULK_CONFIG', bilateral 'COMMAND', Device Information 'serialNumber'),
+  // the UUID for GATT explorer traffic, null for connect/disconnect
+  key: string | null;
+  bytes: number[] | null; // Raw value on the wire (null for failed reads and link events)
+  value: unknown; // Decoded value, or a short description for link events
+  durationMs: number | null; // GATT round trip (null for notifications and link loss)
+  error?: string; // Set when the operation failed
+}
+
+/**
+ * Run one GATT read/write and add it to the traffic log
+ * BLEConfigService hands this to the optional service clients so all device traffic lands in one log
+ * @param sentBytes Value being written (reads log the value received instead)
+ */
+export type TrafficOperationRecorder = <T>(
+  type: 'read' | 'write',
+  key: string,
+  operation: () => Promise<T>,
+  sentBytes?: Uint8Array
+) => Promise<T>;
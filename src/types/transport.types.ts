@@ -0,0 +1,128 @@
+/**
+ * Config Transport Types
+ * Abstraction over the link to a device's Configuration Service (AD032)
+ * BLEConfigService talks only to this interface, so the same readConfig/setX API
+ * can run over Web Bluetooth, an in-memory device, or a recorded session
+ */
+
+import type { CharacteristicKey } from './characteristic.types';
+
+/**
+ * Callback for raw notification payloads
+ */
+export type TransportValueListener = (value: DataView) => void;
+
+/**
+ * Characteristic access within one GATT service, keyed by app-level names
+ * Values cross this boundary as raw bytes; decoding stays in the service client
+ */
+export interface GattServiceChannel<K extends string> {
+  /**
+   * Resolve which of the requested characteristics the device exposes
+   * Missing characteristics are omitted rather than throwing
+   */
+  discover(keys: readonly K[]): Promise<K[]>;
+
+  read(key: K): Promise<DataView>;
+
+  write(key: K, value: Uint8Array): Promise<void>;
+
+  /** Enable notifications and deliver each payload to listener */
+  startNotifications(key: K, listener: TransportValueListener): Promise<void>;
+
+  /** Disable notifications and drop the listener registered for key */
+  stopNotifications(key: K): Promise<void>;
+}
+
+/**
+ * GATT characteristic properties relevant to the raw explorer
+ */
+export interface RawGattProperties {
+  read: boolean;
+  write: boolean;
+  writeWithoutResponse: boolean;
+  notify: boolean;
+  indicate: boolean;
+}
+
+/**
+ * One characteristic found by ConfigTransport.exploreServices(), addressed by UUID only
+ * Used by the advanced-mode GATT explorer for characteristics the app doesn't know yet
+ */
+export interface RawGattCharacteristic {
+  readonly uuid: string;
+  readonly properties: RawGattProperties;
+  readonly descriptorUuids: readonly string[];
+  readonly userDescription: string | null; // 0x2901 Characteristic User Description, if present
+
+  read(): Promise<DataView>;
+
+  write(value: Uint8Array, withResponse: boolean): Promise<void>;
+
+  /** Enable notifications/indications and deliver each payload to listener */
+  startNotifications(listener: TransportValueListener): Promise<void>;
+
+  /**
+   * Drop the listener; notifications stay enabled on characteristics the app itself subscribes to
+   */
+  stopNotifications(): Promise<void>;
+}
+
+export interface RawGattService {
+  readonly uuid: string;
+  readonly characteristics: readonly RawGattCharacteristic[];
+}
+
+/**
+ * Transport to one device's Configuration Service
+ * Values cross this boundary as raw bytes; decoding stays in BLEConfigService
+ */
+export interface ConfigTransport extends GattServiceChannel<CharacteristicKey> {
+  /** Stable device identifier (Web Bluetooth device id; keys the device registry) */
+  readonly deviceId: string;
+
+  /** Human-readable device name */
+  readonly deviceName: string;
+
+  /**
+   * Open the link to the device
+   * Must be callable again after a disconnect (used by auto-reconnect)
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Close the link intentionally
+   * Does not fire onDisconnect listeners (those are for unexpected link loss)
+   */
+  disconnect(): Promise<void>;
+
+  /**
+   * Close a link that stopped responding without tearing the transport down
+   * Keeps onDisconnect listeners for the reconnect that follows; connect() opens a fresh session
+   */
+  dropLink(): void;
+
+  isConnected(): boolean;
+
+  /**
+   * Open another primary service on the same device (e.g. Bilateral Control, AD030)
+   * Optional: transports without it only provide the Configuration Service
+   * @returns Channel to the service, or null if the device doesn't have it
+   */
+  openService?<K extends string>(
+    serviceUuid: string,
+    characteristicUuids: Record<K, string>
+  ): Promise<GattServiceChannel<K> | null>;
+
+  /**
+   * List every primary service the transport may access, with characteristics and descriptors
+   * Optional: transports without it can't be explored
+   */
+  exploreServices?(): Promise<RawGattService[]>;
+
+  /**
+   * Subscribe to unexpected link loss (device powered off, out of range)
+   * @returns Unsubscribe function
+   */
+  onDisconnect(callback: () => void): () => void;
+}